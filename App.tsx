@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
-import { Page, Event, Client, Expense, User, Notification, Announcement, Budget, BudgetItem, BudgetStatus, Inquiry, ActivityLog, AdminDashboardStats, ChatMessage } from './types';
+import { Page, Event, EventStatus, Equipment, EquipmentCategory, EquipmentCondition, StaffMember, StaffRole, EventStaffAssignment, Client, ClientSource, Expense, ExpenseCategory, BusinessExpense, BusinessExpenseRecurrence, Currency, ExchangeRate, EventPayment, PaymentType, PaymentMethod, User, Notification, Announcement, Budget, BudgetItem, BudgetStatus, BudgetRevision, TaxRate, Inquiry, ActivityLog, AdminDashboardStats, ChatMessage } from './types';
 import { getDashboardInsights, getInquiryReplySuggestion, getFollowUpEmailSuggestion, getBudgetItemsSuggestion } from './services/geminiService';
 import { BarChart, Bar, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import { 
@@ -7,11 +7,13 @@ import {
     LogoutIcon, UserManagementIcon, AgendaIcon, CloseIcon, TrashIcon, PlusIcon, MenuIcon, 
     SuccessIcon, ErrorIcon, BellIcon, WarningIcon, AnnouncementIcon, SendIcon, BudgetIcon, 
     PdfIcon, EditIcon, EmailIcon, InquiryIcon, ActivityLogIcon, SparklesIcon, LogoIconOnly, 
-    BrainCircuitIcon, MessageSquareIcon
+    BrainCircuitIcon, MessageSquareIcon, PackageIcon, StaffIcon, WalletIcon, SearchIcon
 } from './components/Icons.tsx';
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
 import { createClient, AuthSession } from '@supabase/supabase-js';
+import * as XLSX from 'xlsx';
+import { buildICS, addDaysToDateKey } from './supabase/functions/_shared/ics.ts';
 import { GoogleGenAI, Chat } from "@google/genai";
 
 // --- SUPABASE CLIENT ---
@@ -36,8 +38,433 @@ type AlertState = {
 }
 
 // --- HELPERS ---
-const formatGuarani = (amount: number) =>
-    new Intl.NumberFormat('es-PY', { style: 'currency', currency: 'PYG', minimumFractionDigits: 0 }).format(amount);
+const CURRENCIES: Currency[] = ['PYG', 'USD', 'BRL'];
+
+const formatCurrency = (amount: number, currency: Currency = 'PYG') => {
+    const fractionDigits = currency === 'PYG' ? 0 : 2;
+    return new Intl.NumberFormat('es-PY', { style: 'currency', currency, minimumFractionDigits: fractionDigits, maximumFractionDigits: fractionDigits }).format(amount);
+};
+
+// Rates are stored as guaraníes per unit. The rate in effect on `date` is used, falling back to the latest one.
+const getExchangeRate = (currency: Currency, rates: ExchangeRate[], date?: string): number | null => {
+    if (currency === 'PYG') return 1;
+    const currencyRates = rates
+        .filter(r => r.currency === currency)
+        .sort((a, b) => b.date.localeCompare(a.date));
+    if (currencyRates.length === 0) return null;
+    const rateOnDate = date ? currencyRates.find(r => r.date.split('T')[0] <= date.split('T')[0]) : undefined;
+    return (rateOnDate || currencyRates[0]).rate;
+};
+
+const convertCurrency = (amount: number, from: Currency = 'PYG', to: Currency = 'PYG', rates: ExchangeRate[], date?: string) => {
+    if (from === to) return amount;
+    const fromRate = getExchangeRate(from, rates, date) ?? 1;
+    const toRate = getExchangeRate(to, rates, date) ?? 1;
+    return amount * fromRate / toRate;
+};
+
+// Currencies whose amounts can't be converted to `baseCurrency` because no rate is loaded; convertCurrency counts them 1:1.
+const getMissingRateCurrencies = (currencies: (Currency | undefined)[], rates: ExchangeRate[], baseCurrency: Currency) => {
+    const used = Array.from(new Set(currencies.map(c => c || 'PYG')));
+    if (used.every(c => c === baseCurrency)) return [];
+    return Array.from(new Set([...used, baseCurrency])).filter(c => getExchangeRate(c, rates) === null);
+};
+
+const getMissingRatesNote = (missing: Currency[], baseCurrency: Currency) =>
+    `Falta la cotización de ${missing.join(', ')}: esos montos se suman sin convertir, por lo que los totales en ${baseCurrency} no son exactos. Cárgala en Configuración.`;
+
+const getEventCurrencies = (events: Event[]) => events.flatMap(e => [e.currency, ...e.expenses.map(exp => exp.currency || e.currency)]);
+
+const getEventIncome = (event: Event, rates: ExchangeRate[], currency: Currency = event.currency || 'PYG') =>
+    convertCurrency(event.amount_charged, event.currency, currency, rates, event.date);
+
+const getEventExpensesTotal = (event: Event, rates: ExchangeRate[], currency: Currency = event.currency || 'PYG') =>
+    event.expenses.reduce((acc, exp) => acc + convertCurrency(exp.amount, exp.currency || event.currency, currency, rates, event.date), 0);
+
+const PAYMENT_TYPES: PaymentType[] = ['Seña', 'Cuota', 'Saldo'];
+const PAYMENT_METHODS: PaymentMethod[] = ['Efectivo', 'Transferencia', 'Tarjeta', 'Otro'];
+
+const getEventPaidAmount = (event: Event) =>
+    event.payments.reduce((acc, payment) => acc + payment.amount, 0);
+
+const EVENT_STATUSES: EventStatus[] = ['Tentativo', 'Confirmado', 'Completado', 'Cancelado'];
+
+// Allowed next statuses. Completed events can be reopened and cancelled ones brought back as a hold.
+const EVENT_STATUS_TRANSITIONS: Record<EventStatus, EventStatus[]> = {
+    'Tentativo': ['Confirmado', 'Cancelado'],
+    'Confirmado': ['Tentativo', 'Completado', 'Cancelado'],
+    'Completado': ['Confirmado'],
+    'Cancelado': ['Tentativo'],
+};
+
+const EVENT_STATUS_STYLES: Record<EventStatus, string> = {
+    'Tentativo': 'bg-gray-100 text-gray-800',
+    'Confirmado': 'bg-blue-100 text-blue-800',
+    'Completado': 'bg-green-100 text-green-800',
+    'Cancelado': 'bg-red-100 text-red-800',
+};
+
+const getEventStatus = (event: Event): EventStatus => event.status || 'Confirmado';
+
+// Only confirmed and completed events count towards income, expenses and profit.
+const isRevenueEvent = (event: Event) => getEventStatus(event) === 'Confirmado' || getEventStatus(event) === 'Completado';
+
+// Cancelled events owe nothing; whatever was paid and not refunded is kept.
+const getEventBalance = (event: Event) => getEventStatus(event) === 'Cancelado' ? 0 : event.amount_charged - getEventPaidAmount(event);
+
+const getEventRetainedAmount = (event: Event) => getEventPaidAmount(event) - (event.refund_amount || 0);
+
+const EQUIPMENT_CATEGORIES: EquipmentCategory[] = ['Sonido', 'Iluminación', 'Consolas', 'Cables', 'Otros'];
+const EQUIPMENT_CONDITIONS: EquipmentCondition[] = ['Nuevo', 'Bueno', 'Regular', 'En reparación', 'Dado de baja'];
+
+const BUDGET_STATUSES: BudgetStatus[] = ['Borrador', 'Enviado', 'Aceptado', 'Rechazado'];
+const INQUIRY_STATUSES: Inquiry['status'][] = ['Nueva', 'Contactado', 'Presupuesto Enviado'];
+const CLIENT_SOURCES: ClientSource[] = ['Instagram', 'Facebook', 'Recomendación', 'Sitio Web', 'Cliente Anterior', 'Otro'];
+const CLIENT_TAG_SUGGESTIONS = ['Boda', 'Corporativo', 'Quinceañera', 'Cumpleaños', 'Graduación'];
+
+// Compares phones by their local part so 0981..., +595 981... and 595981... match.
+const normalizePhone = (phone?: string) => {
+    const digits = (phone || '').replace(/\D/g, '');
+    return (digits.startsWith('595') ? digits.slice(3) : digits).replace(/^0+/, '');
+};
+
+const normalizeName = (name?: string) =>
+    (name || '').normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/\s+/g, ' ').trim();
+
+// Dice coefficient over character bigrams: 1 for identical names, close to 0 for unrelated ones.
+const nameSimilarity = (a?: string, b?: string) => {
+    const bigrams = (text: string) => {
+        const result = new Map<string, number>();
+        for (let i = 0; i < text.length - 1; i++) {
+            const bigram = text.slice(i, i + 2);
+            result.set(bigram, (result.get(bigram) || 0) + 1);
+        }
+        return result;
+    };
+    const first = normalizeName(a);
+    const second = normalizeName(b);
+    if (!first || !second) return 0;
+    if (first === second) return 1;
+    const firstBigrams = bigrams(first);
+    const secondBigrams = bigrams(second);
+    let overlap = 0;
+    firstBigrams.forEach((count, bigram) => {
+        overlap += Math.min(count, secondBigrams.get(bigram) || 0);
+    });
+    return (2 * overlap) / (first.length - 1 + second.length - 1);
+};
+
+const NAME_SIMILARITY_THRESHOLD = 0.8;
+
+type DuplicateMatch = { client: Client; reasons: string[]; strong: boolean };
+
+// Email, phone and RUC matches are strong; a similar name alone only suggests a duplicate.
+const findDuplicateClients = (candidate: Partial<Client>, clients: Client[]): DuplicateMatch[] => {
+    const email = candidate.email?.trim().toLowerCase();
+    const phone = normalizePhone(candidate.phone);
+    const ruc = candidate.ruc?.replace(/\s/g, '').toLowerCase();
+    return clients
+        .filter(c => c.id !== candidate.id)
+        .map(c => {
+            const reasons: string[] = [];
+            if (email && c.email?.trim().toLowerCase() === email) reasons.push('mismo email');
+            if (phone.length >= 6 && normalizePhone(c.phone) === phone) reasons.push('mismo teléfono');
+            if (ruc && c.ruc?.replace(/\s/g, '').toLowerCase() === ruc) reasons.push('mismo RUC');
+            const strong = reasons.length > 0;
+            if (nameSimilarity(candidate.name, c.name) >= NAME_SIMILARITY_THRESHOLD) reasons.push('nombre similar');
+            return { client: c, reasons, strong };
+        })
+        .filter(match => match.reasons.length > 0)
+        .sort((a, b) => Number(b.strong) - Number(a.strong) || b.reasons.length - a.reasons.length);
+};
+
+const STAFF_ROLES: StaffRole[] = ['DJ Asistente', 'Técnico de Iluminación', 'Sonidista', 'Maestro de Ceremonias', 'Otro'];
+
+const EXPENSE_CATEGORY_COLORS = ['#2563eb', '#dc2626', '#16a34a', '#d97706', '#7c3aed', '#db2777', '#0891b2', '#65a30d', '#ea580c', '#4b5563'];
+const STAFF_EXPENSE_CATEGORY = 'Personal';
+const UNCATEGORIZED_EXPENSE = 'Sin categoría';
+
+// Older expenses only have free text, so fall back to matching the description against category names.
+const getExpenseCategoryName = (expense: Expense, categories: ExpenseCategory[]) => {
+    const byId = expense.category_id ? categories.find(c => c.id === expense.category_id) : undefined;
+    if (byId) return byId.name;
+    const byName = categories.find(c => normalizeName(c.name) === normalizeName(expense.type));
+    if (byName) return byName.name;
+    return expense.staff_id ? STAFF_EXPENSE_CATEGORY : UNCATEGORIZED_EXPENSE;
+};
+
+const BUSINESS_EXPENSE_RECURRENCES: BusinessExpenseRecurrence[] = ['Única', 'Mensual', 'Anual'];
+
+const addMonthsToMonthKey = (monthKey: string, months: number) => {
+    const [year, month] = monthKey.split('-').map(Number);
+    const date = new Date(year, month - 1 + months, 1);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+};
+
+const formatMonthKey = (monthKey: string) => new Date(`${monthKey}-01T00:00:00`).toLocaleDateString('es-ES', { month: 'short', year: '2-digit' });
+
+// Whether a business expense is charged in the given 'YYYY-MM' month.
+const isBusinessExpenseInMonth = (expense: BusinessExpense, monthKey: string) => {
+    const startMonth = expense.date.slice(0, 7);
+    if (monthKey < startMonth) return false;
+    if (expense.recurrence === 'Única') return monthKey === startMonth;
+    if (expense.end_date && monthKey > expense.end_date.slice(0, 7)) return false;
+    return expense.recurrence === 'Mensual' || monthKey.slice(5) === startMonth.slice(5);
+};
+
+const getOverheadForMonth = (expenses: BusinessExpense[], monthKey: string, rates: ExchangeRate[], currency: Currency) =>
+    expenses
+        .filter(expense => isBusinessExpenseInMonth(expense, monthKey))
+        .reduce((acc, expense) => acc + convertCurrency(expense.amount, expense.currency, currency, rates, `${monthKey}-01`), 0);
+
+type PeriodSummary = { eventCount: number; income: number; expenses: number; profit: number; averageTicket: number; margin: number };
+
+const WEEKDAY_LABELS = ['Dom', 'Lun', 'Mar', 'Mié', 'Jue', 'Vie', 'Sáb'];
+const MONTH_LABELS = ['Ene', 'Feb', 'Mar', 'Abr', 'May', 'Jun', 'Jul', 'Ago', 'Sep', 'Oct', 'Nov', 'Dic'];
+const COMPARISON_COLORS = ['#3b82f6', '#9ca3af', '#f59e0b', '#10b981'];
+
+// Event-level figures only; overhead is added by callers that work in whole months.
+const summarizeEvents = (events: Event[], rates: ExchangeRate[], currency: Currency): PeriodSummary => {
+    const income = events.reduce((acc, e) => acc + getEventIncome(e, rates, currency), 0);
+    const expenses = events.reduce((acc, e) => acc + getEventExpensesTotal(e, rates, currency), 0);
+    return {
+        eventCount: events.length,
+        income,
+        expenses,
+        profit: income - expenses,
+        averageTicket: events.length > 0 ? income / events.length : 0,
+        margin: income > 0 ? ((income - expenses) / income) * 100 : 0,
+    };
+};
+
+const getEventsBetween = (events: Event[], fromKey: string, toKey: string) =>
+    events.filter(e => getEventDateKey(e) >= fromKey && getEventDateKey(e) <= toKey);
+
+const shiftDateKeyByYears = (dateKey: string, years: number) => `${Number(dateKey.slice(0, 4)) + years}${dateKey.slice(4)}`;
+
+const getPercentChange = (current: number, previous: number) => previous === 0 ? null : ((current - previous) / Math.abs(previous)) * 100;
+
+// Rebuilds the staff-generated expense lines so they always mirror the event's crew assignments.
+const syncStaffExpenses = (event: Event, staffMembers: StaffMember[]): Event => ({
+    ...event,
+    expenses: [
+        ...event.expenses.filter(exp => !exp.staff_id),
+        ...(event.staff || []).map(assignment => {
+            const member = staffMembers.find(m => m.id === assignment.staff_id);
+            const previous = event.expenses.find(exp => exp.staff_id === assignment.staff_id);
+            return {
+                id: previous?.id || Math.random().toString(),
+                type: member ? `Personal: ${member.name} (${member.role})` : previous?.type || 'Personal',
+                amount: assignment.fee,
+                currency: event.currency,
+                staff_id: assignment.staff_id,
+            };
+        }),
+    ],
+});
+
+const getEventDateKey = (event: Event) => event.date.split('T')[0];
+
+const timeToMinutes = (time: string) => {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+};
+
+// Booking window in minutes since the epoch. A missing start or end time extends to the day boundary.
+const getBookingInterval = (dateKey: string, startTime?: string | null, endTime?: string | null) => {
+    const dayStart = new Date(`${dateKey}T00:00:00Z`).getTime() / 60000;
+    const start = dayStart + (startTime ? timeToMinutes(startTime) : 0);
+    let end = dayStart + (endTime ? timeToMinutes(endTime) : 24 * 60);
+    if (end <= start) end += 24 * 60;
+    return { start, end };
+};
+
+const findOverlappingEvents = (events: Event[], date: string, startTime?: string | null, endTime?: string | null, excludeId?: string) => {
+    const booking = getBookingInterval(date.split('T')[0], startTime, endTime);
+    return events.filter(e => {
+        if ((excludeId && e.id === excludeId) || getEventStatus(e) === 'Cancelado') return false;
+        const other = getBookingInterval(getEventDateKey(e), e.start_time, e.end_time);
+        return other.start < booking.end && booking.start < other.end;
+    });
+};
+
+const formatEventTime = (event: Event) =>
+    event.start_time ? `${event.start_time}${event.end_time ? ` - ${event.end_time}` : ''}` : 'Todo el día';
+
+const downloadICS = (events: Event[], calendarName: string, filename: string) => {
+    const blob = new Blob([buildICS(events, calendarName)], { type: 'text/calendar;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+type SpreadsheetFormat = 'csv' | 'xlsx';
+
+const downloadSpreadsheet = (rows: (string | number)[][], sheetName: string, filename: string, format: SpreadsheetFormat) => {
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), sheetName);
+    XLSX.writeFile(workbook, `${filename}.${format}`, { bookType: format });
+};
+
+// Served by supabase/functions/calendar-feed, which skips JWT checks and looks the user up by this token.
+const getCalendarFeedUrl = (token: string) => `${supabaseUrl}/functions/v1/calendar-feed?token=${token}`;
+
+const describeOverlaps = (overlapping: Event[]) =>
+    overlapping.map(e => `${e.name} (${new Date(e.date).toLocaleDateString()} ${formatEventTime(e)})`).join(', ');
+
+const toDateKey = (date: Date) =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Groups, per date, the equipment booked on more than one event that day.
+const getEquipmentConflicts = (events: Event[]) => {
+    const bookings = new Map<string, Map<string, string[]>>();
+    events.filter(event => getEventStatus(event) !== 'Cancelado').forEach(event => {
+        const dateKey = getEventDateKey(event);
+        (event.equipment_ids || []).forEach(equipmentId => {
+            const dayBookings = bookings.get(dateKey) || new Map<string, string[]>();
+            dayBookings.set(equipmentId, [...(dayBookings.get(equipmentId) || []), event.id]);
+            bookings.set(dateKey, dayBookings);
+        });
+    });
+
+    const conflicts = new Map<string, { equipmentId: string; eventIds: string[] }[]>();
+    bookings.forEach((dayBookings, dateKey) => {
+        const dayConflicts = Array.from(dayBookings.entries())
+            .filter(([, eventIds]) => eventIds.length > 1)
+            .map(([equipmentId, eventIds]) => ({ equipmentId, eventIds }));
+        if (dayConflicts.length > 0) conflicts.set(dateKey, dayConflicts);
+    });
+    return conflicts;
+};
+
+const getBudgetSubtotal = (budget: Budget) =>
+    budget.items.reduce((acc, item) => acc + item.quantity * item.price, 0);
+
+const getBudgetTotal = (budget: Budget) => getBudgetSubtotal(budget) - budget.discount;
+
+const TAX_RATES: { rate: TaxRate; label: string }[] = [
+    { rate: 10, label: 'IVA 10%' },
+    { rate: 5, label: 'IVA 5%' },
+    { rate: 0, label: 'Exento' },
+];
+
+const getItemTaxRate = (item: BudgetItem): TaxRate => item.tax_rate ?? 10;
+
+// Prices are IVA-included, as on Paraguayan invoices, so the tax is liquidated out of the
+// total (1/11 for 10%, 1/21 for 5%) after spreading the discount proportionally across rates.
+const getBudgetTaxBreakdown = (budget: Budget) => {
+    const subtotal = getBudgetSubtotal(budget);
+    const discountFactor = subtotal > 0 ? getBudgetTotal(budget) / subtotal : 0;
+    const taxedAmount = (rate: TaxRate) => budget.items
+        .filter(item => getItemTaxRate(item) === rate)
+        .reduce((acc, item) => acc + item.quantity * item.price, 0) * discountFactor;
+
+    const gravadas10 = taxedAmount(10);
+    const gravadas5 = taxedAmount(5);
+    const exentas = taxedAmount(0);
+    const iva10 = Math.round(gravadas10 / 11);
+    const iva5 = Math.round(gravadas5 / 21);
+    return { gravadas10, gravadas5, exentas, iva10, iva5, totalIva: iva10 + iva5 };
+};
+
+const formatBudgetNumber = (budget: Budget, user: Pick<User, 'document_prefix'>) => {
+    if (!budget.document_number) return budget.id.substring(0, 8).toUpperCase();
+    const number = String(budget.document_number).padStart(7, '0');
+    return user.document_prefix ? `${user.document_prefix}-${number}` : number;
+};
+
+const applyBudgetRevision = (budget: Budget, revision: BudgetRevision): Budget => ({
+    ...budget,
+    items: revision.items.map(item => ({ ...item, id: Math.random().toString() })),
+    discount: revision.discount,
+    notes: revision.notes,
+    valid_until: revision.valid_until,
+});
+
+const fetchBudgetRevisions = async (budgetId: string): Promise<BudgetRevision[]> => {
+    const { data, error } = await supabase.from('budget_revisions').select('*').eq('budget_id', budgetId).order('revision_number', { ascending: false });
+    if (error) {
+        console.error("Error fetching budget revisions:", error.message);
+        return [];
+    }
+    return data as BudgetRevision[] || [];
+};
+
+// Activity entries are tied to a client through the clientId stored in their details.
+const fetchClientActivity = async (clientId: string): Promise<ActivityLog[]> => {
+    const { data, error } = await supabase.from('activity_logs').select('*').eq('details->>clientId', clientId).order('created_at', { ascending: false }).limit(100);
+    if (error) {
+        console.error("Error fetching client activity:", error.message);
+        return [];
+    }
+    return data as ActivityLog[] || [];
+};
+
+type TrashKind = 'events' | 'clients' | 'budgets';
+type TrashContents = { events: Event[]; clients: Client[]; budgets: Budget[] };
+
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+const TRASH_RETENTION_OPTIONS = [7, 30, 90, 365];
+const TRASH_KIND_LABELS: Record<TrashKind, string> = { events: 'Evento', clients: 'Cliente', budgets: 'Presupuesto' };
+
+const getTrashRetentionDays = (user: User) => user.trash_retention_days || DEFAULT_TRASH_RETENTION_DAYS;
+
+// A reversible change kept in the client-side history while its undo window is open.
+type UndoEntry = { id: number; label: string; undo: () => Promise<void>; expiresAt: number };
+
+const UNDO_WINDOW_MS = 10000;
+const UNDO_HISTORY_LIMIT = 20;
+
+const ACTIVITY_LABELS: Record<string, string> = {
+    client_created: 'Cliente registrado',
+    client_updated: 'Datos del cliente actualizados',
+    event_created: 'Evento creado',
+    event_updated: 'Evento actualizado',
+    event_deleted: 'Evento eliminado',
+    event_status_changed: 'Estado del evento cambiado',
+    budget_client_response: 'Respuesta del cliente a presupuesto',
+    event_restored: 'Evento restaurado',
+    client_restored: 'Cliente restaurado',
+    budget_restored: 'Presupuesto restaurado',
+    clients_merged: 'Clientes fusionados',
+    budget_created: 'Presupuesto creado',
+    budget_updated: 'Presupuesto actualizado',
+    budget_deleted: 'Presupuesto eliminado',
+    budget_sent: 'Presupuesto enviado',
+    budget_converted_to_event: 'Presupuesto convertido en evento',
+};
+
+// Budgets are only sent or issued with their sequential number; retries the assignment when the save could not get one.
+const ensureBudgetDocumentNumber = async (budget: Budget): Promise<Budget | null> => {
+    if (budget.document_number) return budget;
+    const { data, error } = await supabase.rpc('assign_budget_document_number', { p_budget_id: budget.id });
+    if (error) {
+        console.error("Error assigning budget number:", error.message);
+        return null;
+    }
+    return { ...budget, document_number: data as number };
+};
+
+const getBudgetPublicUrl = async (budget: Budget): Promise<string | null> => {
+    let token = budget.public_token;
+    if (!token) {
+        // The local copy may be stale, so check for a link created since the last fetch before minting a new one.
+        const { data } = await supabase.from('budgets').select('public_token').eq('id', budget.id).single();
+        token = data?.public_token;
+    }
+    if (!token) {
+        token = crypto.randomUUID();
+        const { error } = await supabase.from('budgets').update({ public_token: token }).eq('id', budget.id);
+        if (error) {
+            console.error("Error creating budget public link:", error.message);
+            return null;
+        }
+    }
+    return `${window.location.origin}${window.location.pathname}#/budget/${token}`;
+};
 
 const logActivity = async (action: string, details?: object) => {
     const { data: { user } } = await supabase.auth.getUser();
@@ -82,6 +509,7 @@ const generateBudgetPDF = async (budget: Budget, currentUser: User, client: Clie
     const doc = new jsPDF();
     const pageMargin = 15;
     const headStyles = { fillColor: '#2563eb', textColor: '#ffffff', fontStyle: 'bold' as 'bold' };
+    const money = (amount: number) => formatCurrency(amount, budget.currency);
 
     // --- PDF Header ---
     const logoDataUrl = currentUser.companyLogoUrl ? await getBase64ImageFromUrl(currentUser.companyLogoUrl) : null;
@@ -98,11 +526,27 @@ const generateBudgetPDF = async (budget: Budget, currentUser: User, client: Clie
     doc.setFont('helvetica', 'normal');
     doc.setTextColor(100);
     doc.text(`Presupuesto / Cotización`, logoDataUrl ? pageMargin + 30 : pageMargin, 32);
+    const fiscalInfo = [
+        currentUser.company_ruc ? `RUC: ${currentUser.company_ruc}` : '',
+        currentUser.timbrado_number ? `Timbrado N° ${currentUser.timbrado_number}` : '',
+        currentUser.timbrado_valid_until ? `Vigencia: ${new Date(currentUser.timbrado_valid_until).toLocaleDateString('es-ES', { timeZone: 'UTC' })}` : '',
+    ].filter(Boolean).join('  |  ');
+    if (fiscalInfo) {
+        doc.setFontSize(9);
+        doc.text(fiscalInfo, logoDataUrl ? pageMargin + 30 : pageMargin, 38);
+    }
 
     // --- Client and Budget Info (using a borderless table for alignment) ---
-    const clientInfo = `CLIENTE:\n${client?.name || 'N/A'}\n${client?.phone || ''}\n${client?.email || ''}`;
+    const clientInfo = [
+        'CLIENTE:',
+        client?.company_name ? `${client.company_name} (${client.name})` : client?.name || 'N/A',
+        client?.ruc ? `RUC: ${client.ruc}` : '',
+        client?.billing_address || '',
+        client?.phone || '',
+        client?.email || '',
+    ].filter(Boolean).join('\n');
     const budgetInfo = `NÚMERO DE PRESUPUESTO:\nFECHA DE EMISIÓN:\nVÁLIDO HASTA:`;
-    const budgetValues = `${budget.id.substring(0, 8).toUpperCase()}\n${new Date(budget.created_at).toLocaleDateString()}\n${budget.valid_until ? new Date(budget.valid_until).toLocaleDateString() : 'N/A'}`;
+    const budgetValues = `${formatBudgetNumber(budget, currentUser)}\n${new Date(budget.created_at).toLocaleDateString()}\n${budget.valid_until ? new Date(budget.valid_until).toLocaleDateString() : 'N/A'}`;
         
     autoTable(doc, {
         startY: 50,
@@ -122,19 +566,21 @@ const generateBudgetPDF = async (budget: Budget, currentUser: User, client: Clie
 
     // --- Items Table ---
     const itemsTableStartY = (doc as any).lastAutoTable.finalY + 10;
-    const subtotal = budget.items.reduce((acc, item) => acc + item.quantity * item.price, 0);
-    const total = subtotal - budget.discount;
+    const subtotal = getBudgetSubtotal(budget);
+    const total = getBudgetTotal(budget);
+    const taxes = getBudgetTaxBreakdown(budget);
     
     const tableBody = budget.items.map(item => [
         item.description,
         item.quantity,
-        formatGuarani(item.price),
-        formatGuarani(item.quantity * item.price)
+        money(item.price),
+        TAX_RATES.find(t => t.rate === getItemTaxRate(item))!.label,
+        money(item.quantity * item.price)
     ]);
 
     autoTable(doc, {
         startY: itemsTableStartY,
-        head: [['Descripción', 'Cantidad', 'Precio Unit.', 'Total']],
+        head: [['Descripción', 'Cantidad', 'Precio Unit.', 'IVA', 'Total']],
         body: tableBody,
         theme: 'grid',
         headStyles: headStyles,
@@ -142,7 +588,8 @@ const generateBudgetPDF = async (budget: Budget, currentUser: User, client: Clie
         columnStyles: {
             1: { halign: 'center' },
             2: { halign: 'right' },
-            3: { halign: 'right' }
+            3: { halign: 'center' },
+            4: { halign: 'right' }
         },
         didDrawPage: (data) => {
             // --- PDF Footer ---
@@ -165,15 +612,21 @@ const generateBudgetPDF = async (budget: Budget, currentUser: User, client: Clie
         tableWidth: 'wrap',
         margin: { left: doc.internal.pageSize.width / 2 },
         body: [
-            ['Subtotal:', { content: formatGuarani(subtotal), styles: { halign: 'right' } }],
-            ['Descuento:', { content: formatGuarani(budget.discount), styles: { halign: 'right' } }],
+            ['Subtotal:', { content: money(subtotal), styles: { halign: 'right' } }],
+            ['Descuento:', { content: money(budget.discount), styles: { halign: 'right' } }],
             [{
                 content: 'TOTAL:',
                 styles: { fontStyle: 'bold', fontSize: 12 }
             }, {
-                content: formatGuarani(total),
+                content: money(total),
                 styles: { fontStyle: 'bold', fontSize: 12, halign: 'right' }
             }],
+            ['Gravadas 10%:', { content: money(taxes.gravadas10), styles: { halign: 'right' } }],
+            ['Gravadas 5%:', { content: money(taxes.gravadas5), styles: { halign: 'right' } }],
+            ['Exentas:', { content: money(taxes.exentas), styles: { halign: 'right' } }],
+            ['Liquidación IVA 10%:', { content: money(taxes.iva10), styles: { halign: 'right' } }],
+            ['Liquidación IVA 5%:', { content: money(taxes.iva5), styles: { halign: 'right' } }],
+            ['Total IVA:', { content: money(taxes.totalIva), styles: { halign: 'right', fontStyle: 'bold' } }],
         ],
         styles: { fontSize: 10, cellPadding: { top: 1.5, right: 0, bottom: 1.5, left: 2 } },
     });
@@ -316,6 +769,155 @@ const AlertModal: React.FC<{ alertState: AlertState; onClose: () => void; }> = (
     );
 };
 
+const MissingRatesWarning: React.FC<{ missing: Currency[]; baseCurrency: Currency; className?: string }> = ({ missing, baseCurrency, className = '' }) => {
+    if (missing.length === 0) return null;
+    return (
+        <div className={`flex items-center space-x-2 bg-yellow-100 dark:bg-yellow-900/50 text-yellow-800 dark:text-yellow-300 px-4 py-2 rounded-lg text-sm ${className}`}>
+            <WarningIcon />
+            <span>{getMissingRatesNote(missing, baseCurrency)}</span>
+        </div>
+    );
+};
+
+const UndoToast: React.FC<{ entries: UndoEntry[]; onUndo: (entry: UndoEntry) => void; onDismiss: (id: number) => void; }> = ({ entries, onUndo, onDismiss }) => {
+    if (entries.length === 0) return null;
+
+    return (
+        <div className="fixed bottom-4 right-4 z-[60] flex flex-col gap-2 w-full max-w-sm px-4 sm:px-0">
+            {entries.slice(-3).reverse().map(entry => (
+                <div key={entry.id} className="flex items-center justify-between gap-3 bg-gray-900 text-white dark:bg-gray-700 px-4 py-3 rounded-lg shadow-lg">
+                    <span className="text-sm">{entry.label}</span>
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                        <button onClick={() => onUndo(entry)} className="text-sm font-semibold text-primary-300 hover:text-primary-200">Deshacer</button>
+                        <button onClick={() => onDismiss(entry.id)} title="Cerrar" className="text-gray-400 hover:text-white">&times;</button>
+                    </div>
+                </div>
+            ))}
+        </div>
+    );
+};
+
+type CommandPaletteItem = { id: string; group: string; label: string; detail?: string; run: () => void };
+
+const COMMAND_PALETTE_GROUP_LIMIT = 5;
+
+// Every word of the query has to appear in one of the fields; accents, case and phone formatting are ignored.
+const matchesPaletteQuery = (query: string, fields: (string | null | undefined)[]) => {
+    const haystack = normalizeName(fields.filter(Boolean).join(' '));
+    const digits = fields.map(field => (field || '').replace(/\D/g, '')).join(' ');
+    return normalizeName(query).split(' ').every(word => haystack.includes(word) || (/^\d{3,}$/.test(word) && digits.includes(normalizePhone(word))));
+};
+
+const CommandPalette: React.FC<{
+    currentUser: User;
+    events: Event[];
+    clients: Client[];
+    budgets: Budget[];
+    inquiries: Inquiry[];
+    onNavigate: (page: Page) => void;
+    onOpenEvent: (event: Event | null) => void;
+    onOpenBudget: (budget: Budget | null) => void;
+    onOpenClient: (clientId: string) => void;
+    onClose: () => void;
+}> = ({ currentUser, events, clients, budgets, inquiries, onNavigate, onOpenEvent, onOpenBudget, onOpenClient, onClose }) => {
+    const [query, setQuery] = useState('');
+    const [activeIndex, setActiveIndex] = useState(0);
+    const listRef = useRef<HTMLUListElement>(null);
+
+    const actions = useMemo<CommandPaletteItem[]>(() => [
+        ...(currentUser.role === 'user' ? [
+            { id: 'new-event', group: 'Acciones', label: 'Nuevo evento', run: () => onOpenEvent(null) },
+            { id: 'new-budget', group: 'Acciones', label: 'Nuevo presupuesto', run: () => onOpenBudget(null) },
+        ] : []),
+        ...getNavItems(currentUser.role).map(item => ({ id: `page-${item.page}`, group: 'Ir a', label: item.label, run: () => onNavigate(item.page) })),
+    ], [currentUser.role, onNavigate, onOpenEvent, onOpenBudget]);
+
+    const results = useMemo<CommandPaletteItem[]>(() => {
+        const term = query.trim();
+        if (!term) return actions;
+        const limit = <T,>(items: T[]) => items.slice(0, COMMAND_PALETTE_GROUP_LIMIT);
+        return [
+            ...limit(events.filter(e => matchesPaletteQuery(term, [e.name, e.location, e.client?.name, e.client?.email, e.client?.phone]))).map(e => ({
+                id: `event-${e.id}`, group: 'Eventos', label: e.name, detail: `${new Date(e.date).toLocaleDateString()} · ${e.client?.name || 'Sin cliente'}${e.location ? ` · ${e.location}` : ''}`, run: () => onOpenEvent(e),
+            })),
+            ...limit(clients.filter(c => matchesPaletteQuery(term, [c.name, c.company_name, c.email, c.phone]))).map(c => ({
+                id: `client-${c.id}`, group: 'Clientes', label: c.name, detail: [c.phone, c.email].filter(Boolean).join(' · '), run: () => onOpenClient(c.id),
+            })),
+            ...limit(budgets.filter(b => matchesPaletteQuery(term, [b.title, b.client?.name, b.client?.email, b.client?.phone]))).map(b => ({
+                id: `budget-${b.id}`, group: 'Presupuestos', label: b.title, detail: `${b.status} · ${b.client?.name || 'Sin cliente'} · ${formatCurrency(getBudgetTotal(b), b.currency)}`, run: () => onOpenBudget(b),
+            })),
+            ...limit(inquiries.filter(i => matchesPaletteQuery(term, [i.client_name, i.client_email, i.client_phone, i.event_type]))).map(i => ({
+                id: `inquiry-${i.id}`, group: 'Consultas', label: i.client_name, detail: `${i.status}${i.event_type ? ` · ${i.event_type}` : ''}${i.event_date ? ` · ${i.event_date}` : ''}`, run: () => onNavigate('inquiries'),
+            })),
+            ...actions.filter(action => matchesPaletteQuery(term, [action.label])),
+        ];
+    }, [query, actions, events, clients, budgets, inquiries, onOpenEvent, onOpenClient, onOpenBudget, onNavigate]);
+
+    useEffect(() => setActiveIndex(0), [query]);
+
+    useEffect(() => {
+        listRef.current?.querySelector(`[data-index="${activeIndex}"]`)?.scrollIntoView({ block: 'nearest' });
+    }, [activeIndex]);
+
+    const select = (item: CommandPaletteItem) => {
+        onClose();
+        item.run();
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'ArrowDown') {
+            e.preventDefault();
+            setActiveIndex(i => Math.min(results.length - 1, i + 1));
+        } else if (e.key === 'ArrowUp') {
+            e.preventDefault();
+            setActiveIndex(i => Math.max(0, i - 1));
+        } else if (e.key === 'Enter' && results[activeIndex]) {
+            e.preventDefault();
+            select(results[activeIndex]);
+        } else if (e.key === 'Escape') {
+            onClose();
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-start z-50 p-4 pt-[15vh]" onClick={onClose}>
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-xl overflow-hidden" onClick={e => e.stopPropagation()}>
+                <div className="flex items-center gap-2 px-4 border-b dark:border-gray-700">
+                    <SearchIcon />
+                    <input
+                        autoFocus
+                        type="text"
+                        value={query}
+                        onChange={e => setQuery(e.target.value)}
+                        onKeyDown={handleKeyDown}
+                        placeholder="Buscar eventos, clientes, presupuestos, consultas o acciones..."
+                        className="w-full py-3 bg-transparent focus:outline-none"
+                    />
+                    <kbd className="text-xs text-gray-400">Esc</kbd>
+                </div>
+                <ul ref={listRef} className="max-h-96 overflow-y-auto py-2">
+                    {results.map((item, index) => (
+                        <React.Fragment key={item.id}>
+                            {(index === 0 || results[index - 1].group !== item.group) && (
+                                <li className="px-4 pt-2 pb-1 text-xs font-semibold uppercase text-gray-500">{item.group}</li>
+                            )}
+                            <li
+                                data-index={index}
+                                onMouseEnter={() => setActiveIndex(index)}
+                                onClick={() => select(item)}
+                                className={`px-4 py-2 cursor-pointer ${index === activeIndex ? 'bg-primary-600 text-white' : ''}`}
+                            >
+                                <p className="font-medium">{item.label}</p>
+                                {item.detail && <p className={`text-xs ${index === activeIndex ? 'text-primary-100' : 'text-gray-500'}`}>{item.detail}</p>}
+                            </li>
+                        </React.Fragment>
+                    ))}
+                    {results.length === 0 && <li className="px-4 py-6 text-center text-gray-500">No se encontraron resultados para "{query}".</li>}
+                </ul>
+            </div>
+        </div>
+    );
+};
 
 const AiSuggestionModal: React.FC<{
     title: string;
@@ -348,6 +950,40 @@ const AiSuggestionModal: React.FC<{
     );
 };
 
+type NavItem = { page: Page; label: string; icon: React.ReactNode };
+
+const getNavItems = (role: User['role']): NavItem[] => {
+    const items: NavItem[] = [
+        { page: 'dashboard', label: 'Dashboard', icon: <DashboardIcon /> },
+    ];
+    if (role === 'admin') {
+        items.push(
+            { page: 'userManagement', label: 'Usuarios', icon: <UserManagementIcon /> },
+            { page: 'announcements', label: 'Anuncios', icon: <AnnouncementIcon /> },
+            { page: 'sendNotification', label: 'Enviar Notificación', icon: <SendIcon /> },
+            { page: 'activityLog', label: 'Registro de Actividad', icon: <ActivityLogIcon /> },
+            { page: 'support', label: 'Soporte', icon: <MessageSquareIcon /> }
+        );
+    } else {
+         items.push(
+            { page: 'inquiries', label: 'Consultas', icon: <InquiryIcon /> },
+            { page: 'budgets', label: 'Presupuestos', icon: <BudgetIcon /> },
+            { page: 'events', label: 'Eventos', icon: <EventsIcon /> },
+            { page: 'clients', label: 'Clientes', icon: <ClientsIcon /> },
+            { page: 'staff', label: 'Personal', icon: <StaffIcon /> },
+            { page: 'inventory', label: 'Inventario', icon: <PackageIcon /> },
+            { page: 'expenses', label: 'Gastos Generales', icon: <WalletIcon /> },
+            { page: 'agenda', label: 'Agenda', icon: <AgendaIcon /> },
+            { page: 'reports', label: 'Reportes', icon: <ReportsIcon /> },
+            { page: 'coach', label: 'Coach IA', icon: <BrainCircuitIcon /> },
+            { page: 'support', label: 'Soporte', icon: <MessageSquareIcon /> },
+            { page: 'trash', label: 'Papelera', icon: <TrashIcon /> }
+        );
+    }
+    items.push({ page: 'settings', label: 'Configuración', icon: <SettingsIcon /> });
+    return items;
+};
+
 const Sidebar: React.FC<{
     currentPage: Page;
     setCurrentPage: (page: Page) => void;
@@ -357,33 +993,7 @@ const Sidebar: React.FC<{
     setIsOpen: (isOpen: boolean) => void;
     unreadSupportCount: number;
 }> = ({ currentPage, setCurrentPage, currentUser, handleLogout, isOpen, setIsOpen, unreadSupportCount }) => {
-    const navItems = useMemo(() => {
-        let items: { page: Page; label: string; icon: React.ReactNode }[] = [
-            { page: 'dashboard', label: 'Dashboard', icon: <DashboardIcon /> },
-        ];
-        if (currentUser.role === 'admin') {
-            items.push(
-                { page: 'userManagement', label: 'Usuarios', icon: <UserManagementIcon /> },
-                { page: 'announcements', label: 'Anuncios', icon: <AnnouncementIcon /> },
-                { page: 'sendNotification', label: 'Enviar Notificación', icon: <SendIcon /> },
-                { page: 'activityLog', label: 'Registro de Actividad', icon: <ActivityLogIcon /> },
-                { page: 'support', label: 'Soporte', icon: <MessageSquareIcon /> }
-            );
-        } else {
-             items.push(
-                { page: 'inquiries', label: 'Consultas', icon: <InquiryIcon /> },
-                { page: 'budgets', label: 'Presupuestos', icon: <BudgetIcon /> },
-                { page: 'events', label: 'Eventos', icon: <EventsIcon /> },
-                { page: 'clients', label: 'Clientes', icon: <ClientsIcon /> },
-                { page: 'agenda', label: 'Agenda', icon: <AgendaIcon /> },
-                { page: 'reports', label: 'Reportes', icon: <ReportsIcon /> },
-                { page: 'coach', label: 'Coach IA', icon: <BrainCircuitIcon /> },
-                { page: 'support', label: 'Soporte', icon: <MessageSquareIcon /> }
-            );
-        }
-        items.push({ page: 'settings', label: 'Configuración', icon: <SettingsIcon /> });
-        return items;
-    }, [currentUser.role]);
+    const navItems = useMemo(() => getNavItems(currentUser.role), [currentUser.role]);
 
     const NavLink: React.FC<{ page: Page, label: string, icon: React.ReactNode }> = ({ page, label, icon }) => (
         <a
@@ -444,7 +1054,8 @@ const Header: React.FC<{
     setIsNotificationsOpen: (isOpen: boolean) => void;
     markNotificationsAsRead: () => void;
     daysUntilExpiry: number | null;
-}> = ({ currentUser, toggleTheme, theme, onMenuClick, notifications, isNotificationsOpen, setIsNotificationsOpen, markNotificationsAsRead, daysUntilExpiry }) => {
+    onSearchClick: () => void;
+}> = ({ currentUser, toggleTheme, theme, onMenuClick, notifications, isNotificationsOpen, setIsNotificationsOpen, markNotificationsAsRead, daysUntilExpiry, onSearchClick }) => {
     
     const notificationRef = useRef<HTMLDivElement>(null);
     const unreadCount = notifications.filter(n => !n.is_read).length;
@@ -483,6 +1094,11 @@ const Header: React.FC<{
                          <span>Tu licencia vence en {daysUntilExpiry} día{daysUntilExpiry !== 1 ? 's' : ''}.</span>
                      </div>
                 )}
+                <button onClick={onSearchClick} title="Buscar (Ctrl+K)" className="flex items-center gap-2 p-2 md:px-3 md:py-1.5 rounded-full md:rounded-lg text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 md:border dark:border-gray-600">
+                    <SearchIcon />
+                    <span className="hidden md:inline text-sm">Buscar...</span>
+                    <kbd className="hidden md:inline text-xs text-gray-400">Ctrl+K</kbd>
+                </button>
                 <button onClick={toggleTheme} className="p-2 rounded-full text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700">
                     {theme === 'light' ? <MoonIcon /> : <SunIcon />}
                 </button>
@@ -526,9 +1142,179 @@ const Header: React.FC<{
     );
 };
 
-const AgendaPage: React.FC<{ events: Event[] }> = ({ events }) => {
+type AgendaView = 'month' | 'week' | 'day';
+type AgendaColorMode = 'client' | 'payment' | 'status';
+
+const AGENDA_HOUR_HEIGHT = 48; // Pixels per hour in the week and day views
+const CLIENT_COLORS = ['bg-blue-500', 'bg-purple-500', 'bg-pink-500', 'bg-indigo-500', 'bg-teal-500', 'bg-orange-500', 'bg-cyan-600', 'bg-rose-500'];
+
+const minutesToTime = (minutes: number) => {
+    const normalized = ((minutes % (24 * 60)) + 24 * 60) % (24 * 60);
+    return `${String(Math.floor(normalized / 60)).padStart(2, '0')}:${String(normalized % 60).padStart(2, '0')}`;
+};
+
+// Moves an event to another day, keeping its duration. `undefined` keeps the current times and `null` makes it an all-day event.
+const rescheduleEvent = (event: Event, dateKey: string, startTime?: string | null): Event => {
+    if (startTime === undefined) return { ...event, date: dateKey };
+    if (startTime === null) return { ...event, date: dateKey, start_time: null, end_time: null };
+    const duration = event.start_time && event.end_time
+        ? (timeToMinutes(event.end_time) - timeToMinutes(event.start_time) + 24 * 60) % (24 * 60)
+        : null;
+    return { ...event, date: dateKey, start_time: startTime, end_time: duration !== null ? minutesToTime(timeToMinutes(startTime) + duration) : null };
+};
+
+const EVENT_STATUS_COLORS: Record<EventStatus, string> = {
+    'Tentativo': 'bg-gray-400',
+    'Confirmado': 'bg-blue-500',
+    'Completado': 'bg-green-500',
+    'Cancelado': 'bg-red-500',
+};
+
+// Tentative holds are drawn dashed and translucent; cancelled events stay visible but struck through.
+const getAgendaStatusClasses = (event: Event) => {
+    const status = getEventStatus(event);
+    if (status === 'Tentativo') return 'opacity-70 border-2 border-dashed border-white italic';
+    if (status === 'Cancelado') return 'opacity-40 line-through';
+    return '';
+};
+
+const getPaymentStatusColor = (event: Event) =>
+    getEventBalance(event) <= 0 ? 'bg-green-500' : getEventPaidAmount(event) > 0 ? 'bg-yellow-500' : 'bg-red-500';
+
+// Places overlapping timed events side by side, one lane each.
+const layoutTimedEvents = (dayEvents: Event[]) => {
+    const laneEnds: number[] = [];
+    const blocks = dayEvents
+        .filter(e => e.start_time)
+        .map(e => {
+            const start = timeToMinutes(e.start_time!);
+            const rawEnd = e.end_time ? timeToMinutes(e.end_time) : start + 60;
+            return { event: e, start, end: rawEnd <= start ? 24 * 60 : Math.min(rawEnd, 24 * 60) };
+        })
+        .sort((a, b) => a.start - b.start)
+        .map(block => {
+            let lane = laneEnds.findIndex(end => end <= block.start);
+            if (lane === -1) lane = laneEnds.length;
+            laneEnds[lane] = block.end;
+            return { ...block, lane };
+        });
+    return { blocks, laneCount: Math.max(laneEnds.length, 1) };
+};
+
+const AgendaTimeGrid: React.FC<{
+    days: Date[];
+    events: Event[];
+    colorFor: (event: Event) => string;
+    onSelectEvent: (event: Event) => void;
+    onReschedule: (eventId: string, dateKey: string, startTime?: string | null) => void;
+}> = ({ days, events, colorFor, onSelectEvent, onReschedule }) => {
+    const scrollRef = useRef<HTMLDivElement>(null);
+    const gridTemplateColumns = `3.5rem repeat(${days.length}, minmax(0, 1fr))`;
+
+    useEffect(() => {
+        // Start the view around the morning instead of midnight.
+        if (scrollRef.current) scrollRef.current.scrollTop = 8 * AGENDA_HOUR_HEIGHT;
+    }, []);
+
+    const handleDrop = (e: React.DragEvent<HTMLDivElement>, dateKey: string, allDay: boolean) => {
+        e.preventDefault();
+        const eventId = e.dataTransfer.getData('text/plain');
+        if (!eventId) return;
+        if (allDay) {
+            onReschedule(eventId, dateKey, null);
+            return;
+        }
+        const offset = e.clientY - e.currentTarget.getBoundingClientRect().top;
+        const halfHours = Math.floor(offset / (AGENDA_HOUR_HEIGHT / 2));
+        onReschedule(eventId, dateKey, minutesToTime(Math.min(Math.max(halfHours, 0), 47) * 30));
+    };
+
+    return (
+        <div className="overflow-x-auto">
+            <div className={days.length > 1 ? 'min-w-[700px]' : ''}>
+                <div className="grid border-b dark:border-gray-700" style={{ gridTemplateColumns }}>
+                    <div />
+                    {days.map(day => (
+                        <div key={day.toDateString()} className={`p-2 text-center text-sm font-semibold ${toDateKey(day) === toDateKey(new Date()) ? 'text-primary-600' : ''}`}>
+                            {day.toLocaleDateString('es-ES', { weekday: 'short', day: 'numeric' })}
+                        </div>
+                    ))}
+                </div>
+                <div className="grid border-b dark:border-gray-700" style={{ gridTemplateColumns }}>
+                    <div className="p-1 text-xs text-gray-500 text-right pr-2">Todo el día</div>
+                    {days.map(day => {
+                        const dateKey = toDateKey(day);
+                        return (
+                            <div key={dateKey} onDragOver={e => e.preventDefault()} onDrop={e => handleDrop(e, dateKey, true)} className="min-h-[2rem] p-1 border-l dark:border-gray-700 space-y-1">
+                                {events.filter(e => getEventDateKey(e) === dateKey && !e.start_time).map(e => (
+                                    <div key={e.id} draggable onDragStart={ev => ev.dataTransfer.setData('text/plain', e.id)} onClick={() => onSelectEvent(e)} className={`${colorFor(e)} text-white text-xs rounded px-1 truncate cursor-pointer`}>
+                                        {e.name}
+                                    </div>
+                                ))}
+                            </div>
+                        );
+                    })}
+                </div>
+                <div ref={scrollRef} className="max-h-[600px] overflow-y-auto">
+                    <div className="grid" style={{ gridTemplateColumns }}>
+                        <div>
+                            {Array.from({ length: 24 }, (_, hour) => (
+                                <div key={hour} style={{ height: AGENDA_HOUR_HEIGHT }} className="text-xs text-gray-500 text-right pr-2 -mt-2">
+                                    {hour > 0 && `${String(hour).padStart(2, '0')}:00`}
+                                </div>
+                            ))}
+                        </div>
+                        {days.map(day => {
+                            const dateKey = toDateKey(day);
+                            const { blocks, laneCount } = layoutTimedEvents(events.filter(e => getEventDateKey(e) === dateKey));
+                            return (
+                                <div key={dateKey} onDragOver={e => e.preventDefault()} onDrop={e => handleDrop(e, dateKey, false)} className="relative border-l dark:border-gray-700" style={{ height: 24 * AGENDA_HOUR_HEIGHT }}>
+                                    {Array.from({ length: 24 }, (_, hour) => (
+                                        <div key={hour} style={{ height: AGENDA_HOUR_HEIGHT }} className="border-t border-gray-100 dark:border-gray-700" />
+                                    ))}
+                                    {blocks.map(({ event, start, end, lane }) => (
+                                        <div
+                                            key={event.id}
+                                            draggable
+                                            onDragStart={ev => ev.dataTransfer.setData('text/plain', event.id)}
+                                            onClick={() => onSelectEvent(event)}
+                                            title={`${event.name} · ${formatEventTime(event)}`}
+                                            className={`${colorFor(event)} absolute text-white text-xs rounded p-1 overflow-hidden cursor-pointer shadow`}
+                                            style={{
+                                                top: (start / 60) * AGENDA_HOUR_HEIGHT,
+                                                height: Math.max(((end - start) / 60) * AGENDA_HOUR_HEIGHT, 20),
+                                                left: `${(lane / laneCount) * 100}%`,
+                                                width: `calc(${100 / laneCount}% - 2px)`,
+                                            }}
+                                        >
+                                            <p className="font-semibold truncate">{event.name}</p>
+                                            <p className="truncate">{formatEventTime(event)}</p>
+                                        </div>
+                                    ))}
+                                </div>
+                            );
+                        })}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const AgendaPage: React.FC<{
+    events: Event[];
+    equipment: Equipment[];
+    currentUser: User;
+    saveEvent: (event: Event) => Promise<boolean>;
+}> = ({ events, equipment, currentUser, saveEvent }) => {
     const [currentDate, setCurrentDate] = useState(new Date());
+    const [view, setView] = useState<AgendaView>('month');
+    const [colorMode, setColorMode] = useState<AgendaColorMode>('client');
     const [selectedDateEvents, setSelectedDateEvents] = useState<Event[]>([]);
+    const [exportStart, setExportStart] = useState('');
+    const [exportEnd, setExportEnd] = useState('');
+    const equipmentConflicts = useMemo(() => getEquipmentConflicts(events), [events]);
+    const selectedDateConflicts = selectedDateEvents[0] ? equipmentConflicts.get(getEventDateKey(selectedDateEvents[0])) || [] : [];
 
     const startOfMonth = new Date(currentDate.getFullYear(), currentDate.getMonth(), 1);
     const endOfMonth = new Date(currentDate.getFullYear(), currentDate.getMonth() + 1, 0);
@@ -546,51 +1332,150 @@ const AgendaPage: React.FC<{ events: Event[] }> = ({ events }) => {
         return days;
     }, [startDay, daysInMonth, currentDate]);
 
-    const eventDates = useMemo(() => {
-        const dates = new Set<string>();
-        events.forEach(event => {
-            const eventDate = new Date(event.date);
-            dates.add(new Date(eventDate.getUTCFullYear(), eventDate.getUTCMonth(), eventDate.getUTCDate()).toDateString());
-        });
-        return dates;
-    }, [events]);
+    const weekDays = useMemo(() => {
+        const weekStart = new Date(currentDate.getFullYear(), currentDate.getMonth(), currentDate.getDate() - currentDate.getDay());
+        return Array.from({ length: 7 }, (_, i) => new Date(weekStart.getFullYear(), weekStart.getMonth(), weekStart.getDate() + i));
+    }, [currentDate]);
+
+    const visibleDays = view === 'month' ? calendarDays.filter(d => d.date).map(d => d.date!) : view === 'week' ? weekDays : [currentDate];
+    const visibleEvents = useMemo(() => {
+        const keys = new Set(visibleDays.map(toDateKey));
+        return events.filter(e => keys.has(getEventDateKey(e)));
+    }, [events, view, currentDate]);
+
+    const clientIds = useMemo(() => Array.from(new Set(events.map(e => e.client_id).filter((id): id is string => !!id))).sort(), [events]);
+    const colorFor = (event: Event) => {
+        if (colorMode === 'payment') return getPaymentStatusColor(event);
+        if (colorMode === 'status') return EVENT_STATUS_COLORS[getEventStatus(event)];
+        const index = event.client_id ? clientIds.indexOf(event.client_id) : -1;
+        return index === -1 ? 'bg-gray-500' : CLIENT_COLORS[index % CLIENT_COLORS.length];
+    };
+
+    const eventClassFor = (event: Event) => `${colorFor(event)} ${getAgendaStatusClasses(event)}`;
+
+    const legend = colorMode === 'payment'
+        ? [{ label: 'Pagado', color: 'bg-green-500' }, { label: 'Saldo pendiente', color: 'bg-yellow-500' }, { label: 'Sin pagos', color: 'bg-red-500' }]
+        : colorMode === 'status'
+        ? EVENT_STATUSES.map(status => ({ label: status, color: EVENT_STATUS_COLORS[status] }))
+        : Array.from(new Map(visibleEvents.map(e => [e.client_id, { label: e.client?.name || 'Sin cliente', color: colorFor(e) }])).values());
+
+    const navigate = (direction: 1 | -1) => {
+        if (view === 'month') setCurrentDate(new Date(currentDate.getFullYear(), currentDate.getMonth() + direction, 1));
+        else setCurrentDate(new Date(currentDate.getFullYear(), currentDate.getMonth(), currentDate.getDate() + direction * (view === 'week' ? 7 : 1)));
+    };
+
+    const title = view === 'month'
+        ? currentDate.toLocaleString('es-ES', { month: 'long', year: 'numeric' })
+        : view === 'week'
+            ? `${weekDays[0].toLocaleDateString('es-ES', { day: 'numeric', month: 'short' })} - ${weekDays[6].toLocaleDateString('es-ES', { day: 'numeric', month: 'short', year: 'numeric' })}`
+            : currentDate.toLocaleDateString('es-ES', { weekday: 'long', day: 'numeric', month: 'long', year: 'numeric' });
+
+    const handleReschedule = async (eventId: string, dateKey: string, startTime?: string | null) => {
+        const event = events.find(e => e.id === eventId);
+        if (!event) return;
+        const rescheduled = rescheduleEvent(event, dateKey, startTime);
+        if (getEventDateKey(event) === dateKey && event.start_time === rescheduled.start_time && event.end_time === rescheduled.end_time) return;
+        await saveEvent(rescheduled);
+    };
+
+    // Without an explicit range, exports the month being viewed.
+    const handleExportRange = () => {
+        const start = exportStart || toDateKey(startOfMonth);
+        const end = exportEnd || toDateKey(endOfMonth);
+        const rangeEvents = events.filter(e => getEventDateKey(e) >= start && getEventDateKey(e) <= end);
+        downloadICS(rangeEvents, currentUser.company_name, `Agenda_${start}_${end}.ics`);
+    };
 
     const handleDateClick = (date: Date | null) => {
         if (!date) return;
-        const clickedDateString = date.toDateString();
-        const eventsOnDate = events.filter(event => {
-            const eventDate = new Date(event.date);
-            const eventDateUTC = new Date(eventDate.getUTCFullYear(), eventDate.getUTCMonth(), eventDate.getUTCDate());
-            return eventDateUTC.toDateString() === clickedDateString;
-        });
-        setSelectedDateEvents(eventsOnDate);
+        setSelectedDateEvents(events.filter(event => getEventDateKey(event) === toDateKey(date)));
+    };
+
+    const handleSelectEvent = (event: Event) => {
+        setSelectedDateEvents(events.filter(e => getEventDateKey(e) === getEventDateKey(event)));
     };
 
     return (
         <>
         <div className="bg-white dark:bg-gray-800 p-4 md:p-6 rounded-lg shadow">
-            <div className="flex justify-between items-center mb-4">
-                <button onClick={() => setCurrentDate(new Date(currentDate.getFullYear(), currentDate.getMonth() - 1, 1))} className="px-4 py-2 rounded bg-gray-200 dark:bg-gray-700">Anterior</button>
-                <h3 className="text-xl font-semibold">{currentDate.toLocaleString('es-ES', { month: 'long', year: 'numeric' })}</h3>
-                <button onClick={() => setCurrentDate(new Date(currentDate.getFullYear(), currentDate.getMonth() + 1, 1))} className="px-4 py-2 rounded bg-gray-200 dark:bg-gray-700">Siguiente</button>
-            </div>
-            <div className="grid grid-cols-7 gap-1 text-center font-semibold text-sm text-gray-500 dark:text-gray-400 mb-2">
-                {['D', 'L', 'M', 'M', 'J', 'V', 'S'].map(d => <div key={d}>{d}</div>)}
-            </div>
-            <div className="grid grid-cols-7 gap-1">
-                {calendarDays.map((d, i) => (
-                    <div
-                        key={i}
-                        onClick={() => handleDateClick(d.date)}
-                        className={`p-2 h-20 flex justify-center items-center border dark:border-gray-700 rounded transition-colors ${
-                            d.day === null ? 'bg-gray-50 dark:bg-gray-800/50' :
-                            d.date && eventDates.has(d.date.toDateString()) ? 'bg-primary-100 dark:bg-primary-900/50 cursor-pointer hover:bg-primary-200' :
-                            'bg-white dark:bg-gray-800 cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-700'
-                        }`}
-                    >
-                        {d.day && <span>{d.day}</span>}
-                    </div>
+            <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+                <div className="flex gap-2">
+                    <button onClick={() => navigate(-1)} className="px-4 py-2 rounded bg-gray-200 dark:bg-gray-700">Anterior</button>
+                    <button onClick={() => setCurrentDate(new Date())} className="px-4 py-2 rounded bg-gray-200 dark:bg-gray-700">Hoy</button>
+                    <button onClick={() => navigate(1)} className="px-4 py-2 rounded bg-gray-200 dark:bg-gray-700">Siguiente</button>
+                </div>
+                <h3 className="text-xl font-semibold capitalize">{title}</h3>
+                <div className="flex rounded overflow-hidden border dark:border-gray-600">
+                    {([['month', 'Mes'], ['week', 'Semana'], ['day', 'Día']] as [AgendaView, string][]).map(([value, label]) => (
+                        <button key={value} onClick={() => setView(value)} className={`px-3 py-2 text-sm ${view === value ? 'bg-primary-600 text-white' : 'bg-white dark:bg-gray-800'}`}>{label}</button>
+                    ))}
+                </div>
+            </div>
+            <div className="flex flex-wrap items-center gap-3 mb-4 text-sm">
+                <label className="flex items-center gap-2">
+                    Colorear por:
+                    <select value={colorMode} onChange={e => setColorMode(e.target.value as AgendaColorMode)} className="p-1 border rounded dark:bg-gray-700 dark:border-gray-600">
+                        <option value="client">Cliente</option>
+                        <option value="payment">Estado de pago</option>
+                        <option value="status">Estado del evento</option>
+                    </select>
+                </label>
+                {legend.map(item => (
+                    <span key={`${item.label}-${item.color}`} className="flex items-center gap-1">
+                        <span className={`inline-block w-3 h-3 rounded-full ${item.color}`} />{item.label}
+                    </span>
                 ))}
+                <span className="text-gray-500 ml-auto">Borde punteado: reserva tentativa. Arrastra un evento para reprogramarlo.</span>
+            </div>
+            {view === 'month' ? (
+                <>
+                <div className="grid grid-cols-7 gap-1 text-center font-semibold text-sm text-gray-500 dark:text-gray-400 mb-2">
+                    {['D', 'L', 'M', 'M', 'J', 'V', 'S'].map((d, i) => <div key={i}>{d}</div>)}
+                </div>
+                <div className="grid grid-cols-7 gap-1">
+                    {calendarDays.map((d, i) => {
+                        const dayEvents = d.date ? events.filter(e => getEventDateKey(e) === toDateKey(d.date!)) : [];
+                        return (
+                            <div
+                                key={i}
+                                onClick={() => handleDateClick(d.date)}
+                                onDragOver={e => d.date && e.preventDefault()}
+                                onDrop={e => {
+                                    e.preventDefault();
+                                    if (d.date) handleReschedule(e.dataTransfer.getData('text/plain'), toDateKey(d.date));
+                                }}
+                                className={`p-1 h-24 flex flex-col items-stretch border dark:border-gray-700 rounded transition-colors overflow-hidden ${
+                                    d.day === null ? 'bg-gray-50 dark:bg-gray-800/50' :
+                                    dayEvents.length > 0 ? 'bg-primary-100 dark:bg-primary-900/50 cursor-pointer hover:bg-primary-200' :
+                                    'bg-white dark:bg-gray-800 cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-700'
+                                }`}
+                            >
+                                <div className="flex justify-between items-center">
+                                    {d.day && <span className="text-sm">{d.day}</span>}
+                                    {d.date && equipmentConflicts.has(toDateKey(d.date)) && (
+                                        <span title="Equipo asignado a más de un evento" className="px-1.5 text-xs font-semibold rounded-full bg-red-100 text-red-800">Conflicto</span>
+                                    )}
+                                </div>
+                                {dayEvents.slice(0, 2).map(e => (
+                                    <div key={e.id} draggable onDragStart={ev => ev.dataTransfer.setData('text/plain', e.id)} className={`${eventClassFor(e)} mt-1 text-white text-xs rounded px-1 truncate`}>
+                                        {e.start_time && `${e.start_time} `}{e.name}
+                                    </div>
+                                ))}
+                                {dayEvents.length > 2 && <span className="text-xs text-gray-500 mt-1">+{dayEvents.length - 2} más</span>}
+                            </div>
+                        );
+                    })}
+                </div>
+                </>
+            ) : (
+                <AgendaTimeGrid days={view === 'week' ? weekDays : [currentDate]} events={events} colorFor={eventClassFor} onSelectEvent={handleSelectEvent} onReschedule={handleReschedule} />
+            )}
+            <div className="flex flex-wrap items-center justify-end gap-2 mt-4 pt-4 border-t dark:border-gray-700">
+                <span className="text-sm text-gray-500">Exportar a calendario:</span>
+                <input type="date" value={exportStart} onChange={e => setExportStart(e.target.value)} className="p-2 border rounded dark:bg-gray-700 dark:border-gray-600" />
+                <span>-</span>
+                <input type="date" value={exportEnd} onChange={e => setExportEnd(e.target.value)} className="p-2 border rounded dark:bg-gray-700 dark:border-gray-600" />
+                <button onClick={handleExportRange} className="bg-primary-600 text-white px-4 py-2 rounded-lg hover:bg-primary-700">Exportar .ics</button>
             </div>
         </div>
         {selectedDateEvents.length > 0 && (
@@ -600,12 +1485,24 @@ const AgendaPage: React.FC<{ events: Event[] }> = ({ events }) => {
                     <div className="space-y-4">
                         {selectedDateEvents.map(event => (
                             <div key={event.id} className="p-3 bg-gray-50 dark:bg-gray-700 rounded">
-                                <p className="font-bold">{event.name}</p>
+                                <p className="font-bold">{event.name} <span className={`ml-1 px-2 py-0.5 text-xs font-semibold rounded-full ${EVENT_STATUS_STYLES[getEventStatus(event)]}`}>{getEventStatus(event)}</span></p>
+                                <p className="text-sm text-gray-600 dark:text-gray-300">Horario: {formatEventTime(event)}</p>
                                 <p className="text-sm text-gray-600 dark:text-gray-300">Cliente: {event.client?.name || 'N/A'}</p>
                                 <p className="text-sm text-gray-600 dark:text-gray-300">Lugar: {event.location}</p>
+                                <button onClick={() => downloadICS([event], currentUser.company_name, `${event.name}.ics`)} className="mt-1 text-sm text-primary-600 hover:underline">Agregar a mi calendario (.ics)</button>
                             </div>
                         ))}
                     </div>
+                    {selectedDateConflicts.length > 0 && (
+                        <div className="mt-4 p-3 rounded bg-red-50 dark:bg-red-900/30 text-sm text-red-800 dark:text-red-300">
+                            <p className="font-semibold mb-1">Equipo asignado a más de un evento:</p>
+                            {selectedDateConflicts.map(conflict => (
+                                <p key={conflict.equipmentId}>
+                                    {equipment.find(item => item.id === conflict.equipmentId)?.name || 'Equipo eliminado'}: {conflict.eventIds.map(id => events.find(e => e.id === id)?.name).join(', ')}
+                                </p>
+                            ))}
+                        </div>
+                    )}
                     <button onClick={() => setSelectedDateEvents([])} className="mt-6 w-full py-2 bg-primary-600 text-white rounded">Cerrar</button>
                 </div>
             </div>
@@ -614,34 +1511,249 @@ const AgendaPage: React.FC<{ events: Event[] }> = ({ events }) => {
     );
 };
 
-const SettingsPage: React.FC<{
-    currentUser: User;
-    saveUser: (user: User, password?: string) => Promise<void>;
-    uploadLogo: (userId: string, file: File) => Promise<string | null>;
-}> = ({ currentUser, saveUser, uploadLogo }) => {
-    const [user, setUser] = useState<User>(currentUser);
-    const [logoFile, setLogoFile] = useState<File | null>(null);
-    const [isSaving, setIsSaving] = useState(false);
-    const fileInputRef = useRef<HTMLInputElement>(null);
-
-    useEffect(() => {
-        setUser(currentUser);
-    }, [currentUser]);
-
-    const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-        setUser({ ...user, [e.target.name]: e.target.value });
-    };
-
-    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-        if (e.target.files && e.target.files[0]) {
-            setLogoFile(e.target.files[0]);
+const TrashPage: React.FC<{
+    trash: TrashContents;
+    retentionDays: number;
+    restoreFromTrash: (kind: TrashKind, id: string) => Promise<void>;
+    purgeFromTrash: (kind: TrashKind, ids: string[]) => Promise<void>;
+}> = ({ trash, retentionDays, restoreFromTrash, purgeFromTrash }) => {
+    const [kindFilter, setKindFilter] = useState<TrashKind | ''>('');
+
+    const items = useMemo(() => [
+        ...trash.events.map(e => ({ kind: 'events' as TrashKind, id: e.id, name: e.name, detail: `${new Date(e.date).toLocaleDateString()} · ${e.client?.name || 'Sin cliente'}`, deletedAt: e.deleted_at! })),
+        ...trash.clients.map(c => ({ kind: 'clients' as TrashKind, id: c.id, name: c.name, detail: c.phone || c.email || '', deletedAt: c.deleted_at! })),
+        ...trash.budgets.map(b => ({ kind: 'budgets' as TrashKind, id: b.id, name: b.title, detail: `${b.client?.name || 'Sin cliente'} · ${formatCurrency(getBudgetTotal(b), b.currency)}`, deletedAt: b.deleted_at! })),
+    ].filter(item => !kindFilter || item.kind === kindFilter).sort((a, b) => b.deletedAt.localeCompare(a.deletedAt)), [trash, kindFilter]);
+
+    const daysLeft = (deletedAt: string) => Math.max(0, retentionDays - Math.floor((Date.now() - new Date(deletedAt).getTime()) / 86400000));
+
+    const handleEmptyTrash = async () => {
+        if (!window.confirm(`Se eliminarán definitivamente ${items.length} elementos. Esta acción no se puede deshacer. ¿Continuar?`)) return;
+        // Same order as the nightly purge: clients last, once nothing in the trash references them.
+        for (const kind of ['events', 'budgets', 'clients'] as TrashKind[]) {
+            const ids = items.filter(item => item.kind === kind).map(item => item.id);
+            if (ids.length > 0) await purgeFromTrash(kind, ids);
         }
     };
 
-    const handleSubmit = async (e: React.FormEvent) => {
-        e.preventDefault();
-        setIsSaving(true);
-        let updatedUser = { ...user };
+    return (
+        <div className="bg-white dark:bg-gray-800 p-4 md:p-6 rounded-lg shadow">
+            <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+                <div>
+                    <h3 className="text-xl font-semibold">Papelera</h3>
+                    <p className="text-sm text-gray-500">Los elementos eliminados se conservan {retentionDays} días antes de borrarse definitivamente.</p>
+                </div>
+                <div className="flex gap-2">
+                    <select value={kindFilter} onChange={e => setKindFilter(e.target.value as TrashKind | '')} className="p-2 border rounded dark:bg-gray-700 dark:border-gray-600">
+                        <option value="">Todos</option>
+                        <option value="events">Eventos</option>
+                        <option value="clients">Clientes</option>
+                        <option value="budgets">Presupuestos</option>
+                    </select>
+                    <button onClick={handleEmptyTrash} disabled={items.length === 0} className="px-4 py-2 rounded-lg bg-red-600 text-white hover:bg-red-700 disabled:opacity-50">Vaciar Papelera</button>
+                </div>
+            </div>
+            <div className="overflow-x-auto">
+                <table className="w-full text-left">
+                    <thead>
+                        <tr className="border-b dark:border-gray-700">
+                            <th className="p-2">Tipo</th><th className="p-2">Nombre</th><th className="p-2">Eliminado</th><th className="p-2">Borrado definitivo</th><th className="p-2">Acciones</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {items.map(item => (
+                            <tr key={`${item.kind}-${item.id}`} className="border-b dark:border-gray-700">
+                                <td className="p-2"><span className="px-2 py-1 text-xs font-semibold rounded-full bg-gray-100 text-gray-800">{TRASH_KIND_LABELS[item.kind]}</span></td>
+                                <td className="p-2">
+                                    {item.name}
+                                    {item.detail && <p className="text-xs text-gray-500">{item.detail}</p>}
+                                </td>
+                                <td className="p-2">{new Date(item.deletedAt).toLocaleDateString()}</td>
+                                <td className="p-2">{daysLeft(item.deletedAt) === 0 ? 'Hoy' : `En ${daysLeft(item.deletedAt)} días`}</td>
+                                <td className="p-2">
+                                    <div className="flex items-center space-x-2">
+                                        <button onClick={() => restoreFromTrash(item.kind, item.id)} className="px-3 py-1 text-sm rounded bg-primary-600 text-white hover:bg-primary-700">Restaurar</button>
+                                        <button title="Eliminar definitivamente" onClick={() => window.confirm(`¿Eliminar "${item.name}" definitivamente? Esta acción no se puede deshacer.`) && purgeFromTrash(item.kind, [item.id])} className="p-1.5 rounded text-red-600 hover:bg-red-100 dark:hover:bg-red-900/50">
+                                            <TrashIcon />
+                                        </button>
+                                    </div>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+                {items.length === 0 && <p className="text-center text-gray-500 py-6">La papelera está vacía.</p>}
+            </div>
+        </div>
+    );
+};
+
+const CalendarFeedSection: React.FC<{
+    currentUser: User;
+    regenerateCalendarToken: () => Promise<void>;
+}> = ({ currentUser, regenerateCalendarToken }) => {
+    const [isGenerating, setIsGenerating] = useState(false);
+    const [copied, setCopied] = useState(false);
+    const feedUrl = currentUser.calendar_token ? getCalendarFeedUrl(currentUser.calendar_token) : '';
+
+    const handleGenerate = async () => {
+        if (currentUser.calendar_token && !window.confirm('El enlace actual dejará de funcionar y deberás suscribirte de nuevo en tus dispositivos. ¿Continuar?')) return;
+        setIsGenerating(true);
+        await regenerateCalendarToken();
+        setIsGenerating(false);
+    };
+
+    const handleCopy = async () => {
+        await navigator.clipboard.writeText(feedUrl);
+        setCopied(true);
+        setTimeout(() => setCopied(false), 2000);
+    };
+
+    return (
+        <div className="bg-white dark:bg-gray-800 p-4 md:p-6 rounded-lg shadow max-w-2xl mx-auto mt-6">
+            <h3 className="text-xl font-semibold mb-2">Calendario en tu Teléfono</h3>
+            <p className="text-sm text-gray-500 mb-4">Suscribe tu aplicación de calendario (Google Calendar, iPhone, Outlook) a este enlace privado para ver todos tus eventos sincronizados. No lo compartas.</p>
+            {feedUrl && (
+                <div className="flex gap-2 mb-4">
+                    <input type="text" value={feedUrl} readOnly className="flex-grow p-2 border rounded text-sm dark:bg-gray-700 dark:border-gray-600" />
+                    <button type="button" onClick={handleCopy} className="px-4 py-2 rounded bg-gray-200 dark:bg-gray-600">{copied ? 'Copiado' : 'Copiar'}</button>
+                </div>
+            )}
+            <button type="button" onClick={handleGenerate} disabled={isGenerating} className="bg-primary-600 text-white px-4 py-2 rounded-lg hover:bg-primary-700 disabled:bg-primary-400">
+                {isGenerating ? 'Generando...' : feedUrl ? 'Regenerar Enlace' : 'Generar Enlace'}
+            </button>
+        </div>
+    );
+};
+
+const ExchangeRatesSection: React.FC<{
+    exchangeRates: ExchangeRate[];
+    saveExchangeRate: (rate: Omit<ExchangeRate, 'id' | 'user_id' | 'created_at'>) => Promise<void>;
+    deleteExchangeRate: (id: string) => Promise<void>;
+}> = ({ exchangeRates, saveExchangeRate, deleteExchangeRate }) => {
+    const [newRate, setNewRate] = useState<{ currency: Currency, rate: number, date: string }>({ currency: 'USD', rate: 0, date: new Date().toISOString().split('T')[0] });
+    const [isSaving, setIsSaving] = useState(false);
+
+    const handleAdd = async () => {
+        if (newRate.rate <= 0) return;
+        setIsSaving(true);
+        await saveExchangeRate(newRate);
+        setNewRate(prev => ({ ...prev, rate: 0 }));
+        setIsSaving(false);
+    };
+
+    return (
+        <div className="bg-white dark:bg-gray-800 p-4 md:p-6 rounded-lg shadow max-w-2xl mx-auto mt-6">
+            <h3 className="text-xl font-semibold mb-2">Cotizaciones</h3>
+            <p className="text-sm text-gray-500 mb-4">Valor en guaraníes de una unidad de cada moneda. Se usa la cotización vigente a la fecha de cada evento.</p>
+            <div className="flex flex-wrap gap-2 mb-4">
+                <select value={newRate.currency} onChange={e => setNewRate(prev => ({ ...prev, currency: e.target.value as Currency }))} className="p-2 border rounded dark:bg-gray-700 dark:border-gray-600">
+                    {CURRENCIES.filter(c => c !== 'PYG').map(c => <option key={c} value={c}>{c}</option>)}
+                </select>
+                <input type="number" value={newRate.rate} onChange={e => setNewRate(prev => ({ ...prev, rate: parseFloat(e.target.value) || 0 }))} placeholder="Gs. por unidad" className="flex-grow p-2 border rounded dark:bg-gray-700 dark:border-gray-600" />
+                <input type="date" value={newRate.date} onChange={e => setNewRate(prev => ({ ...prev, date: e.target.value }))} className="p-2 border rounded dark:bg-gray-700 dark:border-gray-600" />
+                <button type="button" onClick={handleAdd} disabled={isSaving || newRate.rate <= 0} className="bg-primary-600 text-white px-4 py-2 rounded-lg hover:bg-primary-700 disabled:bg-primary-400">Agregar</button>
+            </div>
+            <table className="w-full text-left text-sm">
+                <thead><tr className="border-b dark:border-gray-700"><th className="p-2">Moneda</th><th className="p-2">Cotización</th><th className="p-2">Vigente desde</th><th className="p-2"></th></tr></thead>
+                <tbody>
+                    {exchangeRates.map(rate => (
+                        <tr key={rate.id} className="border-b dark:border-gray-700">
+                            <td className="p-2">{rate.currency}</td>
+                            <td className="p-2">{formatCurrency(rate.rate, 'PYG')}</td>
+                            <td className="p-2">{new Date(rate.date).toLocaleDateString('es-ES', { timeZone: 'UTC' })}</td>
+                            <td className="p-2 text-right">
+                                <button title="Eliminar" onClick={() => deleteExchangeRate(rate.id)} className="p-1.5 rounded text-red-600 hover:bg-red-100 dark:hover:bg-red-900/50"><TrashIcon /></button>
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+};
+
+const ExpenseCategoriesSection: React.FC<{
+    expenseCategories: ExpenseCategory[];
+    saveExpenseCategory: (category: Pick<ExpenseCategory, 'name' | 'color'>) => Promise<void>;
+    deleteExpenseCategory: (id: string) => Promise<void>;
+}> = ({ expenseCategories, saveExpenseCategory, deleteExpenseCategory }) => {
+    const nextColor = EXPENSE_CATEGORY_COLORS[expenseCategories.length % EXPENSE_CATEGORY_COLORS.length];
+    const [newCategory, setNewCategory] = useState({ name: '', color: nextColor });
+    const [isSaving, setIsSaving] = useState(false);
+    const isDuplicate = expenseCategories.some(c => normalizeName(c.name) === normalizeName(newCategory.name));
+
+    useEffect(() => {
+        setNewCategory(prev => ({ ...prev, color: nextColor }));
+    }, [nextColor]);
+
+    const handleAdd = async () => {
+        if (!newCategory.name.trim() || isDuplicate) return;
+        setIsSaving(true);
+        await saveExpenseCategory({ name: newCategory.name.trim(), color: newCategory.color });
+        setNewCategory(prev => ({ ...prev, name: '' }));
+        setIsSaving(false);
+    };
+
+    return (
+        <div className="bg-white dark:bg-gray-800 p-4 md:p-6 rounded-lg shadow max-w-2xl mx-auto mt-6">
+            <h3 className="text-xl font-semibold mb-2">Categorías de Gastos</h3>
+            <p className="text-sm text-gray-500 mb-4">Agrupa los gastos de tus eventos (transporte, sonido, catering...) para analizar en qué se va tu margen. Los gastos sin categoría se asignan por su descripción cuando coincide con el nombre.</p>
+            <div className="flex flex-wrap gap-2 mb-4">
+                <input type="color" value={newCategory.color} onChange={e => setNewCategory(prev => ({ ...prev, color: e.target.value }))} className="h-10 w-12 p-1 border rounded dark:bg-gray-700 dark:border-gray-600" />
+                <input type="text" value={newCategory.name} onChange={e => setNewCategory(prev => ({ ...prev, name: e.target.value }))} onKeyDown={e => { if (e.key === 'Enter') { e.preventDefault(); handleAdd(); } }} placeholder="Nombre de la categoría" className="flex-grow p-2 border rounded dark:bg-gray-700 dark:border-gray-600" />
+                <button type="button" onClick={handleAdd} disabled={isSaving || !newCategory.name.trim() || isDuplicate} className="bg-primary-600 text-white px-4 py-2 rounded-lg hover:bg-primary-700 disabled:bg-primary-400">Agregar</button>
+            </div>
+            {isDuplicate && <p className="text-xs text-red-500 -mt-2 mb-4">Ya existe una categoría con ese nombre.</p>}
+            <div className="flex flex-wrap gap-2">
+                {expenseCategories.map(category => (
+                    <span key={category.id} className="flex items-center gap-2 px-3 py-1 rounded-full bg-gray-100 dark:bg-gray-700 text-sm">
+                        <span className="w-3 h-3 rounded-full" style={{ backgroundColor: category.color }}></span>
+                        {category.name}
+                        <button type="button" title="Eliminar" onClick={() => deleteExpenseCategory(category.id)} className="text-gray-400 hover:text-red-500">&times;</button>
+                    </span>
+                ))}
+                {expenseCategories.length === 0 && <p className="text-sm text-gray-500">Todavía no creaste categorías.</p>}
+            </div>
+        </div>
+    );
+};
+
+const SettingsPage: React.FC<{
+    currentUser: User;
+    saveUser: (user: User, password?: string) => Promise<void>;
+    uploadLogo: (userId: string, file: File) => Promise<string | null>;
+    exchangeRates: ExchangeRate[];
+    saveExchangeRate: (rate: Omit<ExchangeRate, 'id' | 'user_id' | 'created_at'>) => Promise<void>;
+    deleteExchangeRate: (id: string) => Promise<void>;
+    expenseCategories: ExpenseCategory[];
+    saveExpenseCategory: (category: Pick<ExpenseCategory, 'name' | 'color'>) => Promise<void>;
+    deleteExpenseCategory: (id: string) => Promise<void>;
+    regenerateCalendarToken: () => Promise<void>;
+}> = ({ currentUser, saveUser, uploadLogo, exchangeRates, saveExchangeRate, deleteExchangeRate, expenseCategories, saveExpenseCategory, deleteExpenseCategory, regenerateCalendarToken }) => {
+    const [user, setUser] = useState<User>(currentUser);
+    const [logoFile, setLogoFile] = useState<File | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        setUser(currentUser);
+    }, [currentUser]);
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+        setUser({ ...user, [e.target.name]: e.target.value });
+    };
+
+    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        if (e.target.files && e.target.files[0]) {
+            setLogoFile(e.target.files[0]);
+        }
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSaving(true);
+        let updatedUser = { ...user };
         if (logoFile) {
             const newLogoUrl = await uploadLogo(user.id, logoFile);
             if (newLogoUrl) {
@@ -659,38 +1771,89 @@ const SettingsPage: React.FC<{
     };
 
     return (
-        <div className="bg-white dark:bg-gray-800 p-4 md:p-6 rounded-lg shadow max-w-2xl mx-auto">
-            <h3 className="text-xl font-semibold mb-6">Configuración de la Cuenta</h3>
-            <form onSubmit={handleSubmit} className="space-y-6">
-                <div>
-                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Email</label>
-                    <input type="email" value={user.email || ''} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600 disabled:opacity-50" disabled />
-                </div>
-                <div>
-                    <label htmlFor="company_name" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Nombre de Empresa</label>
-                    <input type="text" id="company_name" name="company_name" value={user.company_name} onChange={handleChange} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" required />
-                </div>
-                 <div>
-                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Logo de la Empresa</label>
-                    <div className="flex items-center space-x-4">
-                        {user.companyLogoUrl && <img src={user.companyLogoUrl} alt="Logo actual" className="w-16 h-16 rounded-full object-cover" />}
-                        <input type="file" onChange={handleFileChange} ref={fileInputRef} accept="image/png, image/jpeg" className="block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-primary-50 file:text-primary-700 hover:file:bg-primary-100" />
+        <>
+            <div className="bg-white dark:bg-gray-800 p-4 md:p-6 rounded-lg shadow max-w-2xl mx-auto">
+                <h3 className="text-xl font-semibold mb-6">Configuración de la Cuenta</h3>
+                <form onSubmit={handleSubmit} className="space-y-6">
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Email</label>
+                        <input type="email" value={user.email || ''} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600 disabled:opacity-50" disabled />
                     </div>
-                </div>
-                 {currentUser.role === 'admin' && (
                     <div>
-                        <label htmlFor="notification_email" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Email para Notificaciones de Chat</label>
-                        <input type="email" id="notification_email" name="notification_email" value={user.notification_email || ''} onChange={handleChange} placeholder="admin@example.com" className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" />
-                        <p className="text-xs text-gray-500 mt-1">Recibe un aviso por correo cuando un usuario te envíe un mensaje de soporte.</p>
+                        <label htmlFor="company_name" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Nombre de Empresa</label>
+                        <input type="text" id="company_name" name="company_name" value={user.company_name} onChange={handleChange} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" required />
                     </div>
-                 )}
-                <div className="border-t dark:border-gray-700 pt-6">
-                    <button type="submit" disabled={isSaving} className="w-full bg-primary-600 text-white py-2 rounded-lg hover:bg-primary-700 transition duration-300 disabled:bg-primary-400">
-                        {isSaving ? 'Guardando...' : 'Guardar Cambios'}
-                    </button>
-                </div>
-            </form>
-        </div>
+                     <div>
+                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Logo de la Empresa</label>
+                        <div className="flex items-center space-x-4">
+                            {user.companyLogoUrl && <img src={user.companyLogoUrl} alt="Logo actual" className="w-16 h-16 rounded-full object-cover" />}
+                            <input type="file" onChange={handleFileChange} ref={fileInputRef} accept="image/png, image/jpeg" className="block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-primary-50 file:text-primary-700 hover:file:bg-primary-100" />
+                        </div>
+                    </div>
+                     {currentUser.role === 'user' && (
+                        <div>
+                            <label htmlFor="default_currency" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Moneda Base</label>
+                            <select id="default_currency" name="default_currency" value={user.default_currency || 'PYG'} onChange={handleChange} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600">
+                                {CURRENCIES.map(c => <option key={c} value={c}>{c}</option>)}
+                            </select>
+                            <p className="text-xs text-gray-500 mt-1">Moneda por defecto de nuevos eventos y presupuestos, y en la que se muestran los totales de reportes y dashboard.</p>
+                        </div>
+                     )}
+                     {currentUser.role === 'user' && (
+                        <div>
+                            <label htmlFor="trash_retention_days" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Conservar elementos en la Papelera</label>
+                            <select id="trash_retention_days" name="trash_retention_days" value={getTrashRetentionDays(user)} onChange={handleChange} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600">
+                                {TRASH_RETENTION_OPTIONS.map(days => <option key={days} value={days}>{days} días</option>)}
+                            </select>
+                            <p className="text-xs text-gray-500 mt-1">Los eventos, clientes y presupuestos eliminados se borran definitivamente pasado este plazo.</p>
+                        </div>
+                     )}
+                     {currentUser.role === 'user' && (
+                        <div className="border-t dark:border-gray-700 pt-6 space-y-4">
+                            <h4 className="font-semibold">Datos Fiscales para Presupuestos</h4>
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                <div>
+                                    <label htmlFor="company_ruc" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">RUC de la Empresa</label>
+                                    <input type="text" id="company_ruc" name="company_ruc" value={user.company_ruc || ''} onChange={handleChange} placeholder="80012345-6" className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" />
+                                </div>
+                                <div>
+                                    <label htmlFor="document_prefix" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Prefijo de Numeración</label>
+                                    <input type="text" id="document_prefix" name="document_prefix" value={user.document_prefix || ''} onChange={handleChange} placeholder="001-001" className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" />
+                                </div>
+                                <div>
+                                    <label htmlFor="timbrado_number" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Número de Timbrado</label>
+                                    <input type="text" id="timbrado_number" name="timbrado_number" value={user.timbrado_number || ''} onChange={handleChange} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" />
+                                </div>
+                                <div>
+                                    <label htmlFor="timbrado_valid_until" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Vencimiento del Timbrado</label>
+                                    <input type="date" id="timbrado_valid_until" name="timbrado_valid_until" value={user.timbrado_valid_until?.split('T')[0] || ''} onChange={handleChange} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" />
+                                </div>
+                            </div>
+                            <p className="text-xs text-gray-500">Los presupuestos se numeran de forma correlativa, por ejemplo {user.document_prefix ? `${user.document_prefix}-` : ''}0000001.</p>
+                        </div>
+                     )}
+                     {currentUser.role === 'admin' && (
+                        <div>
+                            <label htmlFor="notification_email" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Email para Notificaciones de Chat</label>
+                            <input type="email" id="notification_email" name="notification_email" value={user.notification_email || ''} onChange={handleChange} placeholder="admin@example.com" className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" />
+                            <p className="text-xs text-gray-500 mt-1">Recibe un aviso por correo cuando un usuario te envíe un mensaje de soporte.</p>
+                        </div>
+                     )}
+                    <div className="border-t dark:border-gray-700 pt-6">
+                        <button type="submit" disabled={isSaving} className="w-full bg-primary-600 text-white py-2 rounded-lg hover:bg-primary-700 transition duration-300 disabled:bg-primary-400">
+                            {isSaving ? 'Guardando...' : 'Guardar Cambios'}
+                        </button>
+                    </div>
+                </form>
+            </div>
+            {currentUser.role === 'user' && (
+                <>
+                    <ExchangeRatesSection exchangeRates={exchangeRates} saveExchangeRate={saveExchangeRate} deleteExchangeRate={deleteExchangeRate} />
+                    <ExpenseCategoriesSection expenseCategories={expenseCategories} saveExpenseCategory={saveExpenseCategory} deleteExpenseCategory={deleteExpenseCategory} />
+                    <CalendarFeedSection currentUser={currentUser} regenerateCalendarToken={regenerateCalendarToken} />
+                </>
+            )}
+        </>
     );
 };
 
@@ -701,15 +1864,41 @@ const PageContent: React.FC<{
     clients: Client[];
     budgets: Budget[];
     inquiries: Inquiry[];
-    saveEvent: (event: Event) => Promise<void>;
+    equipment: Equipment[];
+    staffMembers: StaffMember[];
+    businessExpenses: BusinessExpense[];
+    trash: TrashContents;
+    restoreFromTrash: (kind: TrashKind, id: string) => Promise<void>;
+    purgeFromTrash: (kind: TrashKind, ids: string[]) => Promise<void>;
+    saveEvent: (event: Event) => Promise<boolean>;
     deleteEvent: (id: string) => Promise<void>;
+    saveEquipment: (item: Equipment) => Promise<void>;
+    deleteEquipment: (id: string) => Promise<void>;
+    saveStaffMember: (member: StaffMember) => Promise<void>;
+    deleteStaffMember: (id: string) => Promise<void>;
+    saveBusinessExpense: (expense: BusinessExpense) => Promise<void>;
+    deleteBusinessExpense: (id: string) => Promise<void>;
     saveClient: (client: Client) => Promise<Client | null>;
     deleteClient: (id: string) => Promise<void>;
-    saveBudget: (budget: Budget) => Promise<void>;
+    mergeClients: (survivorId: string, duplicateId: string) => Promise<void>;
+    importData: (plan: ImportPlan) => Promise<boolean>;
+    saveBudget: (budget: Budget) => Promise<Budget | null>;
     deleteBudget: (id: string) => Promise<void>;
+    convertBudgetToEvent: (budget: Budget) => void;
+    isEventModalOpen: boolean;
+    setIsEventModalOpen: (isOpen: boolean) => void;
+    selectedEvent: Event | null;
+    setSelectedEvent: (event: Event | null) => void;
     users: User[];
     saveUser: (user: User, password?: string) => Promise<void>;
     uploadLogo: (userId: string, file: File) => Promise<string | null>;
+    exchangeRates: ExchangeRate[];
+    saveExchangeRate: (rate: Omit<ExchangeRate, 'id' | 'user_id' | 'created_at'>) => Promise<void>;
+    deleteExchangeRate: (id: string) => Promise<void>;
+    expenseCategories: ExpenseCategory[];
+    saveExpenseCategory: (category: Pick<ExpenseCategory, 'name' | 'color'>) => Promise<void>;
+    deleteExpenseCategory: (id: string) => Promise<void>;
+    regenerateCalendarToken: () => Promise<void>;
     showAlert: (message: string, type: 'success' | 'error') => void;
     announcements: Announcement[];
     saveAnnouncement: (announcement: Announcement, imageFile?: File | null) => Promise<void>;
@@ -717,6 +1906,9 @@ const PageContent: React.FC<{
     toggleAnnouncementActive: (announcement: Announcement) => Promise<void>;
     sendNotificationToAll: (message: string) => Promise<void>;
     fetchInquiries: (userId: string) => Promise<void>;
+    updateInquiryStatus: (inquiryId: string, status: Inquiry['status']) => Promise<void>;
+    focusedClientId: string | null;
+    clearFocusedClient: () => void;
     convertInquiryToBudget: (inquiry: Inquiry) => Promise<void>;
     isModalOpen: boolean;
     setIsModalOpen: (isOpen: boolean) => void;
@@ -739,22 +1931,24 @@ const PageContent: React.FC<{
         case 'dashboard':
             return props.currentUser.role === 'admin' 
                 ? <DashboardAdmin stats={props.adminStats} /> 
-                : <DashboardUser events={props.events} />;
+                : <DashboardUser events={props.events} businessExpenses={props.businessExpenses} exchangeRates={props.exchangeRates} baseCurrency={props.currentUser.default_currency || 'PYG'} />;
         case 'inquiries':
             return <InquiriesPage 
+                        userId={props.currentUser.id}
                         inquiries={props.inquiries}
                         convertInquiryToBudget={props.convertInquiryToBudget}
-                        fetchInquiries={() => props.fetchInquiries(props.currentUser.id)}
-                        currentUser={props.currentUser}
+                        updateStatus={props.updateInquiryStatus}
                         onGetSuggestion={props.handleGetInquirySuggestion}
                     />;
         case 'budgets':
             return <BudgetsPage 
                         budgets={props.budgets} 
                         clients={props.clients} 
+                        events={props.events}
                         currentUser={props.currentUser} 
                         saveBudget={props.saveBudget} 
                         deleteBudget={props.deleteBudget} 
+                        convertBudgetToEvent={props.convertBudgetToEvent}
                         showAlert={props.showAlert}
                         isModalOpen={props.isModalOpen}
                         setIsModalOpen={props.setIsModalOpen}
@@ -763,15 +1957,65 @@ const PageContent: React.FC<{
                         onGetSuggestion={props.handleGetFollowUpSuggestion}
                     />;
         case 'events':
-            return <EventsPage events={props.events} clients={props.clients} saveEvent={props.saveEvent} deleteEvent={props.deleteEvent} />;
+            return <EventsPage 
+                        userId={props.currentUser.id}
+                        events={props.events} 
+                        clients={props.clients} 
+                        budgets={props.budgets}
+                        equipment={props.equipment}
+                        staffMembers={props.staffMembers}
+                        expenseCategories={props.expenseCategories}
+                        exchangeRates={props.exchangeRates}
+                        defaultCurrency={props.currentUser.default_currency || 'PYG'}
+                        saveEvent={props.saveEvent} 
+                        deleteEvent={props.deleteEvent} 
+                        importData={props.importData}
+                        isModalOpen={props.isEventModalOpen}
+                        setIsModalOpen={props.setIsEventModalOpen}
+                        selectedEvent={props.selectedEvent}
+                        setSelectedEvent={props.setSelectedEvent}
+                    />;
         case 'clients':
-            return <ClientsPage clients={props.clients} saveClient={props.saveClient} deleteClient={props.deleteClient} />;
+            return <ClientsPage
+                        userId={props.currentUser.id}
+                        clients={props.clients}
+                        events={props.events}
+                        budgets={props.budgets}
+                        inquiries={props.inquiries}
+                        exchangeRates={props.exchangeRates}
+                        baseCurrency={props.currentUser.default_currency || 'PYG'}
+                        saveClient={props.saveClient}
+                        deleteClient={props.deleteClient}
+                        mergeClients={props.mergeClients}
+                        importData={props.importData}
+                        focusedClientId={props.focusedClientId}
+                        onFocusHandled={props.clearFocusedClient}
+                    />;
+        case 'staff':
+            return <StaffPage staffMembers={props.staffMembers} events={props.events} saveStaffMember={props.saveStaffMember} deleteStaffMember={props.deleteStaffMember} />;
+        case 'expenses':
+            return <BusinessExpensesPage businessExpenses={props.businessExpenses} expenseCategories={props.expenseCategories} exchangeRates={props.exchangeRates} baseCurrency={props.currentUser.default_currency || 'PYG'} saveBusinessExpense={props.saveBusinessExpense} deleteBusinessExpense={props.deleteBusinessExpense} />;
+        case 'inventory':
+            return <InventoryPage equipment={props.equipment} events={props.events} saveEquipment={props.saveEquipment} deleteEquipment={props.deleteEquipment} />;
         case 'agenda':
-            return <AgendaPage events={props.events} />;
+            return <AgendaPage events={props.events} equipment={props.equipment} currentUser={props.currentUser} saveEvent={props.saveEvent} />;
         case 'reports':
-            return <ReportsPage events={props.events} currentUser={props.currentUser} />;
+            return <ReportsPage events={props.events} clients={props.clients} budgets={props.budgets} staffMembers={props.staffMembers} expenseCategories={props.expenseCategories} businessExpenses={props.businessExpenses} currentUser={props.currentUser} exchangeRates={props.exchangeRates} />;
         case 'settings':
-             return <SettingsPage currentUser={props.currentUser} saveUser={props.saveUser} uploadLogo={props.uploadLogo} />;
+             return <SettingsPage 
+                        currentUser={props.currentUser} 
+                        saveUser={props.saveUser} 
+                        uploadLogo={props.uploadLogo} 
+                        exchangeRates={props.exchangeRates}
+                        saveExchangeRate={props.saveExchangeRate}
+                        deleteExchangeRate={props.deleteExchangeRate}
+                        expenseCategories={props.expenseCategories}
+                        saveExpenseCategory={props.saveExpenseCategory}
+                        deleteExpenseCategory={props.deleteExpenseCategory}
+                        regenerateCalendarToken={props.regenerateCalendarToken}
+                    />;
+        case 'trash':
+            return <TrashPage trash={props.trash} retentionDays={getTrashRetentionDays(props.currentUser)} restoreFromTrash={props.restoreFromTrash} purgeFromTrash={props.purgeFromTrash} />;
         case 'userManagement':
             return <UserManagementPage users={props.users} saveUser={props.saveUser} />;
         case 'announcements':
@@ -876,23 +2120,44 @@ const ActivityLogPage: React.FC<{logs: ActivityLog[]}> = ({ logs }) => {
     );
 };
 
-const DashboardUser: React.FC<{events: Event[]}> = ({events}) => {
+const ChangeIndicator: React.FC<{ current: number; previous: number; label: string; points?: boolean }> = ({ current, previous, label, points }) => {
+    const change = points ? current - previous : getPercentChange(current, previous);
+    if (change === null) return <p className="text-xs text-gray-400 mt-1">Sin datos{label && ` ${label}`}</p>;
+    const isUp = change >= 0;
+    return (
+        <p className={`text-xs mt-1 ${isUp ? 'text-green-600' : 'text-red-600'}`}>
+            {isUp ? '▲' : '▼'} {Math.abs(change).toFixed(1)}{points ? ' pts' : '%'} {label}
+        </p>
+    );
+};
+
+const DashboardUser: React.FC<{events: Event[], businessExpenses: BusinessExpense[], exchangeRates: ExchangeRate[], baseCurrency: Currency}> = ({events: allEvents, businessExpenses, exchangeRates, baseCurrency}) => {
+    const events = useMemo(() => allEvents.filter(isRevenueEvent), [allEvents]);
     const [insights, setInsights] = useState<string>("Generando percepciones...");
     const [loadingInsights, setLoadingInsights] = useState(true);
 
-    const { totalIncome, totalExpenses, netProfit, eventCount, monthlyData, topClients } = useMemo(() => {
-        const currentMonth = new Date().getMonth();
-        const currentYear = new Date().getFullYear();
-        
-        const currentMonthEvents = events.filter(e => {
-            const eventDate = new Date(e.date);
-            return eventDate.getMonth() === currentMonth && eventDate.getFullYear() === currentYear;
-        });
-
-        const totalIncome = currentMonthEvents.reduce((acc, e) => acc + e.amount_charged, 0);
-        const totalExpenses = currentMonthEvents.reduce((acc, e) => acc + e.expenses.reduce((expAcc, exp) => expAcc + exp.amount, 0), 0);
-        const netProfit = totalIncome - totalExpenses;
-        const eventCount = currentMonthEvents.length;
+    const [selectedMonth, setSelectedMonth] = useState(() => toDateKey(new Date()).slice(0, 7));
+    const isCurrentMonth = selectedMonth === toDateKey(new Date()).slice(0, 7);
+
+    // Month summary including overhead, used for the selected month and its comparisons.
+    const getMonthSummary = useCallback((monthKey: string) => {
+        const summary = summarizeEvents(events.filter(e => getEventDateKey(e).startsWith(monthKey)), exchangeRates, baseCurrency);
+        const overhead = getOverheadForMonth(businessExpenses, monthKey, exchangeRates, baseCurrency);
+        return { ...summary, overhead, totalExpenses: summary.expenses + overhead, netProfit: summary.profit - overhead };
+    }, [events, businessExpenses, exchangeRates, baseCurrency]);
+
+    const previousMonthSummary = useMemo(() => getMonthSummary(addMonthsToMonthKey(selectedMonth, -1)), [getMonthSummary, selectedMonth]);
+    const lastYearSummary = useMemo(() => getMonthSummary(shiftDateKeyByYears(selectedMonth, -1)), [getMonthSummary, selectedMonth]);
+
+    const { totalIncome, totalExpenses, overheadExpenses, netProfit, eventCount, averageTicket, margin, monthlyData, topClients } = useMemo(() => {
+        const selectedSummary = getMonthSummary(selectedMonth);
+        const totalIncome = selectedSummary.income;
+        const overheadExpenses = selectedSummary.overhead;
+        const totalExpenses = selectedSummary.totalExpenses;
+        const netProfit = selectedSummary.netProfit;
+        const eventCount = selectedSummary.eventCount;
+        const averageTicket = selectedSummary.averageTicket;
+        const margin = totalIncome > 0 ? (netProfit / totalIncome) * 100 : 0;
         
         const monthlyData = Array.from({ length: 12 }).map((_, i) => {
             const date = new Date();
@@ -906,7 +2171,7 @@ const DashboardUser: React.FC<{events: Event[]}> = ({events}) => {
                     const eventDate = new Date(e.date);
                     return eventDate.getMonth() === month && eventDate.getFullYear() === year;
                 })
-                .reduce((acc, e) => acc + e.amount_charged, 0);
+                .reduce((acc, e) => acc + getEventIncome(e, exchangeRates, baseCurrency), 0);
 
             return { name: monthName, Ingresos: income };
         }).reverse();
@@ -922,8 +2187,24 @@ const DashboardUser: React.FC<{events: Event[]}> = ({events}) => {
             .slice(0, 5)
             .map(([name, count]) => ({ name, Eventos: count }));
 
-        return { totalIncome, totalExpenses, netProfit, eventCount, monthlyData, topClients };
-    }, [events]);
+        return { totalIncome, totalExpenses, overheadExpenses, netProfit, eventCount, averageTicket, margin, monthlyData, topClients };
+    }, [events, getMonthSummary, selectedMonth, exchangeRates, baseCurrency]);
+
+    const missingRates = useMemo(() => getMissingRateCurrencies([...getEventCurrencies(events), ...businessExpenses.map(e => e.currency)], exchangeRates, baseCurrency), [events, businessExpenses, exchangeRates, baseCurrency]);
+
+    const { totalOutstanding, unpaidUpcomingEvents } = useMemo(() => {
+        const unpaidEvents = events.filter(e => getEventBalance(e) > 0);
+        const today = new Date();
+        today.setHours(0, 0, 0, 0);
+        const unpaidUpcomingEvents = unpaidEvents
+            .filter(e => new Date(e.date) >= today)
+            .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+            .slice(0, 5);
+        return {
+            totalOutstanding: unpaidEvents.reduce((acc, e) => acc + convertCurrency(getEventBalance(e), e.currency, baseCurrency, exchangeRates, e.date), 0),
+            unpaidUpcomingEvents,
+        };
+    }, [events, exchangeRates, baseCurrency]);
     
     useEffect(() => {
         const fetchInsights = async () => {
@@ -941,12 +2222,15 @@ const DashboardUser: React.FC<{events: Event[]}> = ({events}) => {
                     setLoadingInsights(false);
                 }
             } else {
-                setInsights("No hay datos de eventos este mes para generar percepciones.");
+                setInsights(`No hay datos de eventos en ${isCurrentMonth ? 'este mes' : formatMonthKey(selectedMonth)} para generar percepciones.`);
                 setLoadingInsights(false);
             }
         };
         fetchInsights();
-    }, [totalIncome, totalExpenses, netProfit, eventCount]);
+    }, [totalIncome, totalExpenses, netProfit, eventCount, isCurrentMonth, selectedMonth]);
+
+    const money = (amount: number) => formatCurrency(amount, baseCurrency);
+    const monthLabel = isCurrentMonth ? 'Mes' : formatMonthKey(selectedMonth);
 
     const formatYAxis = (tickItem: number): string => {
         if (tickItem >= 1000000) return `${(tickItem / 1000000).toFixed(1)}M`;
@@ -956,6 +2240,7 @@ const DashboardUser: React.FC<{events: Event[]}> = ({events}) => {
 
     return (
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <MissingRatesWarning missing={missingRates} baseCurrency={baseCurrency} className="lg:col-span-3" />
             <div className="lg:col-span-2 space-y-6">
                  <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow">
                     <h3 className="text-xl font-semibold mb-4">Tendencia de Ingresos (Últimos 12 meses)</h3>
@@ -964,7 +2249,7 @@ const DashboardUser: React.FC<{events: Event[]}> = ({events}) => {
                             <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="rgba(128, 128, 128, 0.3)" />
                             <XAxis dataKey="name" />
                             <YAxis tickFormatter={formatYAxis} />
-                            <Tooltip formatter={(value) => formatGuarani(value as number)} />
+                            <Tooltip formatter={(value) => money(value as number)} />
                             <Legend />
                             <Line type="monotone" dataKey="Ingresos" stroke="#3b82f6" strokeWidth={2} />
                         </LineChart>
@@ -985,17 +2270,59 @@ const DashboardUser: React.FC<{events: Event[]}> = ({events}) => {
                 </div>
             </div>
              <div className="lg:col-span-1 space-y-6">
+                <div className="bg-white dark:bg-gray-800 p-3 rounded-lg shadow flex items-center justify-between">
+                    <button onClick={() => setSelectedMonth(prev => addMonthsToMonthKey(prev, -1))} className="px-3 py-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700">&lt;</button>
+                    <span className="font-semibold capitalize">{new Date(`${selectedMonth}-01T00:00:00`).toLocaleDateString('es-ES', { month: 'long', year: 'numeric' })}</span>
+                    <button onClick={() => setSelectedMonth(prev => addMonthsToMonthKey(prev, 1))} className="px-3 py-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700">&gt;</button>
+                </div>
                  <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow text-center">
-                    <h4 className="text-sm font-semibold text-gray-600 dark:text-gray-300">Ingresos Totales (Mes)</h4>
-                    <p className="text-3xl font-bold text-green-500 mt-2">{formatGuarani(totalIncome)}</p>
+                    <h4 className="text-sm font-semibold text-gray-600 dark:text-gray-300">Ingresos Totales ({monthLabel})</h4>
+                    <p className="text-3xl font-bold text-green-500 mt-2">{money(totalIncome)}</p>
+                    <ChangeIndicator current={totalIncome} previous={previousMonthSummary.income} label="vs mes anterior" />
+                    <ChangeIndicator current={totalIncome} previous={lastYearSummary.income} label="vs mismo mes del año pasado" />
                 </div>
                 <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow text-center">
-                    <h4 className="text-sm font-semibold text-gray-600 dark:text-gray-300">Gastos Totales (Mes)</h4>
-                    <p className="text-3xl font-bold text-red-500 mt-2">{formatGuarani(totalExpenses)}</p>
+                    <h4 className="text-sm font-semibold text-gray-600 dark:text-gray-300">Gastos Totales ({monthLabel})</h4>
+                    <p className="text-3xl font-bold text-red-500 mt-2">{money(totalExpenses)}</p>
+                    {overheadExpenses > 0 && <p className="text-xs text-gray-500 mt-1">Incluye {money(overheadExpenses)} de gastos generales</p>}
                 </div>
                 <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow text-center">
-                    <h4 className="text-sm font-semibold text-gray-600 dark:text-gray-300">Ganancia Neta (Mes)</h4>
-                    <p className="text-3xl font-bold text-blue-500 mt-2">{formatGuarani(netProfit)}</p>
+                    <h4 className="text-sm font-semibold text-gray-600 dark:text-gray-300">Ganancia Neta ({monthLabel})</h4>
+                    <p className="text-3xl font-bold text-blue-500 mt-2">{money(netProfit)}</p>
+                    <ChangeIndicator current={netProfit} previous={previousMonthSummary.netProfit} label="vs mes anterior" />
+                    <ChangeIndicator current={netProfit} previous={lastYearSummary.netProfit} label="vs mismo mes del año pasado" />
+                </div>
+                <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow grid grid-cols-3 gap-2 text-center">
+                    <div>
+                        <h4 className="text-xs font-semibold text-gray-600 dark:text-gray-300">Eventos</h4>
+                        <p className="text-xl font-bold mt-1">{eventCount}</p>
+                        <ChangeIndicator current={eventCount} previous={previousMonthSummary.eventCount} label="vs mes ant." />
+                    </div>
+                    <div>
+                        <h4 className="text-xs font-semibold text-gray-600 dark:text-gray-300">Ticket Promedio</h4>
+                        <p className="text-xl font-bold mt-1">{money(averageTicket)}</p>
+                        <ChangeIndicator current={averageTicket} previous={previousMonthSummary.averageTicket} label="vs mes ant." />
+                    </div>
+                    <div>
+                        <h4 className="text-xs font-semibold text-gray-600 dark:text-gray-300" title="Incluye los gastos generales">Margen Neto</h4>
+                        <p className="text-xl font-bold mt-1">{margin.toFixed(1)}%</p>
+                        <ChangeIndicator current={margin} previous={previousMonthSummary.income > 0 ? (previousMonthSummary.netProfit / previousMonthSummary.income) * 100 : 0} label="vs mes ant." points />
+                    </div>
+                </div>
+                <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow">
+                    <h4 className="text-sm font-semibold text-gray-600 dark:text-gray-300 text-center">Saldos por Cobrar</h4>
+                    <p className="text-3xl font-bold text-yellow-500 mt-2 text-center">{money(totalOutstanding)}</p>
+                    {unpaidUpcomingEvents.length > 0 && (
+                        <div className="mt-4 space-y-2">
+                            <p className="text-xs font-semibold text-gray-500 dark:text-gray-400">Próximos eventos con saldo pendiente</p>
+                            {unpaidUpcomingEvents.map(e => (
+                                <div key={e.id} className="flex justify-between text-xs">
+                                    <span className="truncate mr-2">{new Date(e.date).toLocaleDateString()} · {e.name}</span>
+                                    <span className="font-semibold text-yellow-600 whitespace-nowrap">{formatCurrency(getEventBalance(e), e.currency)}</span>
+                                </div>
+                            ))}
+                        </div>
+                    )}
                 </div>
                 <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow">
                     <div className="flex items-center mb-2">
@@ -1109,95 +2436,463 @@ const UserFormModal: React.FC<{user: User | null, onSave: (user: User, password?
     );
 };
 
-const EventsPage: React.FC<{events: Event[], clients: Client[], saveEvent: (event: Event) => Promise<void>, deleteEvent: (id: string) => Promise<void>}> = ({ events, clients, saveEvent, deleteEvent }) => {
-    const [isModalOpen, setIsModalOpen] = useState(false);
-    const [selectedEvent, setSelectedEvent] = useState<Event | null>(null);
+type DataTableView = {
+    search: string;
+    dateFrom: string;
+    dateTo: string;
+    clientId: string;
+    status: string;
+    sortKey: string;
+    sortAscending: boolean;
+    pageSize: number;
+};
 
-    const handleOpenModal = (event: Event | null) => {
-        setSelectedEvent(event);
-        setIsModalOpen(true);
+type DataTableColumn<T> = {
+    header: string;
+    sortKey?: string; // Database column used for server-side ordering
+    render: (row: T) => React.ReactNode;
+    className?: string;
+};
+
+type DataTableName = 'events' | 'clients' | 'budgets' | 'inquiries';
+
+const selectDataTableRows = (table: DataTableName, select: string, userId: string) =>
+    supabase.from(table).select<string, Record<string, unknown>>(select, { count: 'exact' }).eq('user_id', userId);
+
+// The PostgrestFilterBuilder that DataTable builds before sorting and paging; filters take it and return it.
+type DataTableQuery = ReturnType<typeof selectDataTableRows>;
+
+type DataTableSource = {
+    table: DataTableName;
+    select: string;
+    searchColumns: string[];
+    dateColumn?: string;
+    clientColumn?: string;
+    statuses?: readonly string[];
+    defaultSort: { key: string; ascending: boolean };
+    softDelete?: boolean;
+    applyStatus?: (query: DataTableQuery, status: string) => DataTableQuery;
+    mapRow?: (row: Record<string, unknown>) => Record<string, unknown>;
+};
+
+const EVENTS_TABLE_SOURCE: DataTableSource = {
+    table: 'events',
+    select: '*, client:clients(*)',
+    searchColumns: ['name', 'location', 'observations'],
+    dateColumn: 'date',
+    clientColumn: 'client_id',
+    statuses: EVENT_STATUSES,
+    defaultSort: { key: 'date', ascending: false },
+    softDelete: true,
+    // Events saved before statuses existed have no status and count as confirmed.
+    applyStatus: (query, status) => status === 'Confirmado' ? query.or('status.eq.Confirmado,status.is.null') : query.eq('status', status),
+    // Same normalization as fetchUserData: older events were saved without payments.
+    mapRow: row => ({ ...row, payments: row.payments || [] }),
+};
+
+const CLIENTS_TABLE_SOURCE: DataTableSource = {
+    table: 'clients',
+    select: '*',
+    searchColumns: ['name', 'company_name', 'ruc', 'phone', 'email'],
+    defaultSort: { key: 'name', ascending: true },
+    softDelete: true,
+};
+
+const BUDGETS_TABLE_SOURCE: DataTableSource = {
+    table: 'budgets',
+    select: '*, client:clients(*)',
+    searchColumns: ['title', 'notes'],
+    dateColumn: 'created_at',
+    clientColumn: 'client_id',
+    statuses: BUDGET_STATUSES,
+    defaultSort: { key: 'created_at', ascending: false },
+    softDelete: true,
+};
+
+const INQUIRIES_TABLE_SOURCE: DataTableSource = {
+    table: 'inquiries',
+    select: '*',
+    searchColumns: ['client_name', 'client_email', 'client_phone', 'event_type', 'message'],
+    dateColumn: 'event_date',
+    statuses: INQUIRY_STATUSES,
+    defaultSort: { key: 'created_at', ascending: false },
+};
+
+const DATA_TABLE_PAGE_SIZES = [10, 25, 50, 100];
+
+const loadDataTableView = (viewKey: string, defaultSort: DataTableSource['defaultSort']): DataTableView => {
+    const defaults: DataTableView = { search: '', dateFrom: '', dateTo: '', clientId: '', status: '', sortKey: defaultSort.key, sortAscending: defaultSort.ascending, pageSize: 25 };
+    try {
+        const saved = localStorage.getItem(`table-view:${viewKey}`);
+        return saved ? { ...defaults, ...JSON.parse(saved) } : defaults;
+    } catch {
+        return defaults;
+    }
+};
+
+// PostgREST uses commas and parentheses as separators inside `or` filters.
+const sanitizeSearchTerm = (term: string) => term.replace(/[,()%*\\]/g, ' ').trim();
+
+const DataTable = <T extends { id: string }>({ viewKey, userId, source, columns, clients, refreshKey, extraFilters, applyExtraFilters, searchPlaceholder, emptyMessage }: {
+    viewKey: string;
+    userId: string;
+    source: DataTableSource;
+    columns: DataTableColumn<T>[];
+    clients?: Client[];
+    refreshKey?: unknown; // Changes whenever the parent list is refetched, so the current page reloads
+    extraFilters?: React.ReactNode;
+    applyExtraFilters?: (query: DataTableQuery) => DataTableQuery;
+    searchPlaceholder?: string;
+    emptyMessage?: string;
+}) => {
+    const [view, setView] = useState<DataTableView>(() => loadDataTableView(viewKey, source.defaultSort));
+    const [page, setPage] = useState(0);
+    const [rows, setRows] = useState<T[]>([]);
+    const [totalCount, setTotalCount] = useState(0);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [searchInput, setSearchInput] = useState(view.search);
+
+    useEffect(() => {
+        localStorage.setItem(`table-view:${viewKey}`, JSON.stringify(view));
+    }, [viewKey, view]);
+
+    // Debounce typing so every keystroke doesn't hit the database.
+    useEffect(() => {
+        const timer = setTimeout(() => updateView({ search: searchInput }), 300);
+        return () => clearTimeout(timer);
+    }, [searchInput]);
+
+    const updateView = (changes: Partial<DataTableView>) => {
+        setView(prev => {
+            const next = { ...prev, ...changes };
+            return Object.keys(changes).every(key => prev[key as keyof DataTableView] === next[key as keyof DataTableView]) ? prev : next;
+        });
+        if (!('sortKey' in changes) && !('sortAscending' in changes)) setPage(0);
     };
 
-    const handleSave = async (event: Event) => {
-        await saveEvent(event);
-        setIsModalOpen(false);
+    useEffect(() => {
+        let isCurrent = true;
+        const load = async () => {
+            setIsLoading(true);
+            let query = selectDataTableRows(source.table, source.select, userId);
+            if (source.softDelete) query = query.is('deleted_at', null);
+            const term = sanitizeSearchTerm(view.search);
+            if (term) query = query.or(source.searchColumns.map(column => `${column}.ilike.%${term}%`).join(','));
+            if (source.dateColumn && view.dateFrom) query = query.gte(source.dateColumn, view.dateFrom);
+            if (source.dateColumn && view.dateTo) query = query.lte(source.dateColumn, `${view.dateTo}T23:59:59`);
+            if (source.clientColumn && view.clientId) query = query.eq(source.clientColumn, view.clientId);
+            if (source.statuses && view.status) query = source.applyStatus ? source.applyStatus(query, view.status) : query.eq('status', view.status);
+            if (applyExtraFilters) query = applyExtraFilters(query);
+            const from = page * view.pageSize;
+            const { data, count, error: queryError } = await query.order(view.sortKey, { ascending: view.sortAscending }).range(from, from + view.pageSize - 1);
+            if (!isCurrent) return;
+            if (queryError) {
+                setError(queryError.message);
+            } else {
+                setError(null);
+                setRows((data || []).map(row => source.mapRow ? source.mapRow(row) : row) as unknown as T[]);
+                setTotalCount(count || 0);
+                // Deleting the last rows of the final page leaves it empty; step back to the new last page.
+                if (page > 0 && from >= (count || 0)) setPage(Math.max(0, Math.ceil((count || 0) / view.pageSize) - 1));
+            }
+            setIsLoading(false);
+        };
+        load();
+        return () => { isCurrent = false; };
+    }, [source, userId, view, page, refreshKey, applyExtraFilters]);
+
+    const pageCount = Math.max(1, Math.ceil(totalCount / view.pageSize));
+    const hasFilters = !!(view.search || view.dateFrom || view.dateTo || view.clientId || view.status);
+
+    const toggleSort = (sortKey: string) => {
+        updateView(view.sortKey === sortKey ? { sortAscending: !view.sortAscending } : { sortKey, sortAscending: true });
+    };
+
+    const clearFilters = () => {
+        setSearchInput('');
+        updateView({ search: '', dateFrom: '', dateTo: '', clientId: '', status: '' });
     };
 
     return (
-        <div className="bg-white dark:bg-gray-800 p-4 md:p-6 rounded-lg shadow">
-            <div className="flex justify-between items-center mb-4">
-                <h3 className="text-xl font-semibold">Mis Eventos</h3>
-                <button onClick={() => handleOpenModal(null)} className="bg-primary-600 text-white px-4 py-2 rounded-lg hover:bg-primary-700">Añadir Evento</button>
+        <div>
+            <div className="flex flex-wrap items-center gap-2 mb-4">
+                <input type="text" value={searchInput} onChange={e => setSearchInput(e.target.value)} placeholder={searchPlaceholder || 'Buscar...'} className="flex-grow p-2 border rounded dark:bg-gray-700 dark:border-gray-600" />
+                {source.dateColumn && (
+                    <>
+                        <input type="date" value={view.dateFrom} onChange={e => updateView({ dateFrom: e.target.value })} title="Desde" className="p-2 border rounded dark:bg-gray-700 dark:border-gray-600" />
+                        <input type="date" value={view.dateTo} onChange={e => updateView({ dateTo: e.target.value })} title="Hasta" className="p-2 border rounded dark:bg-gray-700 dark:border-gray-600" />
+                    </>
+                )}
+                {source.clientColumn && clients && (
+                    <select value={view.clientId} onChange={e => updateView({ clientId: e.target.value })} className="p-2 border rounded dark:bg-gray-700 dark:border-gray-600">
+                        <option value="">Todos los clientes</option>
+                        {clients.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                    </select>
+                )}
+                {source.statuses && (
+                    <select value={view.status} onChange={e => updateView({ status: e.target.value })} className="p-2 border rounded dark:bg-gray-700 dark:border-gray-600">
+                        <option value="">Todos los estados</option>
+                        {source.statuses.map(status => <option key={status}>{status}</option>)}
+                    </select>
+                )}
+                {extraFilters}
+                {hasFilters && <button onClick={clearFilters} className="text-sm text-primary-600 hover:underline">Limpiar filtros</button>}
             </div>
             <div className="overflow-x-auto">
-                 <table className="w-full text-left">
+                <table className={`w-full text-left ${isLoading ? 'opacity-60' : ''}`}>
                     <thead>
                         <tr className="border-b dark:border-gray-700">
-                            <th className="p-2">Evento</th><th className="p-2">Cliente</th><th className="p-2">Fecha</th><th className="p-2">Monto</th><th className="p-2">Acciones</th>
+                            {columns.map(column => (
+                                <th key={column.header} className="p-2">
+                                    {column.sortKey ? (
+                                        <button onClick={() => toggleSort(column.sortKey!)} className="flex items-center gap-1 font-bold hover:text-primary-600">
+                                            {column.header}
+                                            {view.sortKey === column.sortKey && <span>{view.sortAscending ? '▲' : '▼'}</span>}
+                                        </button>
+                                    ) : column.header}
+                                </th>
+                            ))}
                         </tr>
                     </thead>
                     <tbody>
-                        {events.map(event => (
-                            <tr key={event.id} className="border-b dark:border-gray-700">
-                                <td className="p-2">{event.name}</td>
-                                <td className="p-2">{event.client?.name || 'N/A'}</td>
-                                <td className="p-2">{new Date(event.date).toLocaleDateString()}</td>
-                                <td className="p-2">{formatGuarani(event.amount_charged)}</td>
-                                <td className="p-2">
-                                    <div className="flex items-center space-x-2">
-                                        <button title="Editar" onClick={() => handleOpenModal(event)} className="p-1.5 rounded text-blue-600 hover:bg-blue-100 dark:hover:bg-blue-900/50">
-                                            <EditIcon />
-                                        </button>
-                                        <button title="Eliminar" onClick={() => deleteEvent(event.id)} className="p-1.5 rounded text-red-600 hover:bg-red-100 dark:hover:bg-red-900/50">
-                                            <TrashIcon />
-                                        </button>
-                                    </div>
-                                </td>
+                        {rows.map(row => (
+                            <tr key={row.id} className="border-b dark:border-gray-700">
+                                {columns.map(column => <td key={column.header} className={`p-2 ${column.className || ''}`}>{column.render(row)}</td>)}
                             </tr>
                         ))}
                     </tbody>
                 </table>
+                {error && <p className="text-center text-red-600 py-4">Error al cargar los datos: {error}</p>}
+                {!error && !isLoading && rows.length === 0 && <p className="text-center text-gray-500 py-6">{hasFilters ? 'No hay resultados para los filtros aplicados.' : (emptyMessage || 'No hay registros.')}</p>}
+            </div>
+            <div className="flex flex-wrap justify-between items-center gap-2 mt-4 text-sm">
+                <div className="flex items-center gap-2">
+                    <span>{totalCount === 0 ? '0 resultados' : `Mostrando ${page * view.pageSize + 1}–${Math.min(totalCount, (page + 1) * view.pageSize)} de ${totalCount}`}</span>
+                    <select value={view.pageSize} onChange={e => updateView({ pageSize: Number(e.target.value) })} className="p-1 border rounded dark:bg-gray-700 dark:border-gray-600">
+                        {DATA_TABLE_PAGE_SIZES.map(size => <option key={size} value={size}>{size} por página</option>)}
+                    </select>
+                </div>
+                <div className="flex items-center gap-2">
+                    <button onClick={() => setPage(p => p - 1)} disabled={page === 0} className="px-3 py-1 rounded bg-gray-200 dark:bg-gray-700 disabled:opacity-50">Anterior</button>
+                    <span>Página {page + 1} de {pageCount}</span>
+                    <button onClick={() => setPage(p => p + 1)} disabled={page + 1 >= pageCount} className="px-3 py-1 rounded bg-gray-200 dark:bg-gray-700 disabled:opacity-50">Siguiente</button>
+                </div>
             </div>
-            {isModalOpen && <EventFormModal event={selectedEvent} clients={clients} onSave={handleSave} onClose={() => setIsModalOpen(false)} />}
         </div>
     );
 };
 
-const EventFormModal: React.FC<{event: Event | null, clients: Client[], onSave: (event: Event) => void, onClose: () => void}> = ({ event, clients, onSave, onClose }) => {
-    const isNew = !event?.id;
-    const initialEventState = useMemo(() => {
-        return event 
-            ? {...event, date: event.date.split('T')[0], expenses: event.expenses.map(e => ({...e, id: Math.random().toString()}))} 
-            : { id: '', user_id: '', client_id: clients[0]?.id || null, client: null, name: '', location: '', date: new Date().toISOString().split('T')[0], amount_charged: 0, expenses: [], observations: '' };
-    }, [event, clients]);
-
-    const [formData, setFormData] = useState<Event>(initialEventState);
+const EventsPage: React.FC<{
+    userId: string;
+    events: Event[];
+    clients: Client[];
+    budgets: Budget[];
+    equipment: Equipment[];
+    staffMembers: StaffMember[];
+    expenseCategories: ExpenseCategory[];
+    exchangeRates: ExchangeRate[];
+    defaultCurrency: Currency;
+    saveEvent: (event: Event) => Promise<boolean>;
+    deleteEvent: (id: string) => Promise<void>;
+    importData: (plan: ImportPlan) => Promise<boolean>;
+    isModalOpen: boolean;
+    setIsModalOpen: (isOpen: boolean) => void;
+    selectedEvent: Event | null;
+    setSelectedEvent: (event: Event | null) => void;
+}> = ({ userId, events, clients, budgets, equipment, staffMembers, expenseCategories, exchangeRates, defaultCurrency, saveEvent, deleteEvent, importData, isModalOpen, setIsModalOpen, selectedEvent, setSelectedEvent }) => {
+    const [isImportOpen, setIsImportOpen] = useState(false);
 
-    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
-        const { name, value } = e.target;
-        setFormData(prev => ({...prev, [name]: name === 'amount_charged' ? parseFloat(value) : value }));
+    const handleOpenModal = (event: Event | null) => {
+        setSelectedEvent(event);
+        setIsModalOpen(true);
     };
 
-    const handleExpenseChange = (index: number, field: 'type' | 'amount', value: string | number) => {
-        const newExpenses = [...formData.expenses];
-        if (field === 'amount') {
-            newExpenses[index] = { ...newExpenses[index], amount: Number(value) };
-        } else {
-            newExpenses[index] = { ...newExpenses[index], type: String(value) };
-        }
-        setFormData(prev => ({...prev, expenses: newExpenses }));
+    const handleSave = async (event: Event) => {
+        if (await saveEvent(event)) setIsModalOpen(false);
     };
-    
-    const addExpense = () => {
-        setFormData(prev => ({ ...prev, expenses: [...prev.expenses, { id: Math.random().toString(), type: '', amount: 0 }] }));
+
+    const columns: DataTableColumn<Event>[] = [
+        {
+            header: 'Evento',
+            sortKey: 'name',
+            render: event => {
+                const linkedBudget = event.budget_id ? budgets.find(b => b.id === event.budget_id) : undefined;
+                return (
+                    <>
+                        {event.name}
+                        {linkedBudget && <p className="text-xs text-gray-500">Presupuesto: {linkedBudget.title}</p>}
+                    </>
+                );
+            },
+        },
+        { header: 'Cliente', render: event => event.client?.name || 'N/A' },
+        {
+            header: 'Fecha',
+            sortKey: 'date',
+            render: event => (
+                <>
+                    {new Date(event.date).toLocaleDateString()}
+                    <p className="text-xs text-gray-500">{formatEventTime(event)}</p>
+                </>
+            ),
+        },
+        { header: 'Estado', sortKey: 'status', render: event => <span className={`px-2 py-1 text-xs font-semibold rounded-full ${EVENT_STATUS_STYLES[getEventStatus(event)]}`}>{getEventStatus(event)}</span> },
+        { header: 'Monto', sortKey: 'amount_charged', render: event => <span className={getEventStatus(event) === 'Cancelado' ? 'line-through text-gray-400' : ''}>{formatCurrency(event.amount_charged, event.currency)}</span> },
+        {
+            header: 'Saldo',
+            render: event => {
+                const balance = getEventBalance(event);
+                return balance > 0
+                    ? <span className="px-2 py-1 text-xs font-semibold rounded-full bg-yellow-100 text-yellow-800">{formatCurrency(balance, event.currency)}</span>
+                    : <span className="px-2 py-1 text-xs font-semibold rounded-full bg-green-100 text-green-800">Pagado</span>;
+            },
+        },
+        {
+            header: 'Acciones',
+            render: event => (
+                <div className="flex items-center space-x-2">
+                    <button title="Editar" onClick={() => handleOpenModal(event)} className="p-1.5 rounded text-blue-600 hover:bg-blue-100 dark:hover:bg-blue-900/50">
+                        <EditIcon />
+                    </button>
+                    <button title="Exportar a Calendario (.ics)" onClick={() => downloadICS([event], event.name, `${event.name}.ics`)} className="p-1.5 rounded text-green-600 hover:bg-green-100 dark:hover:bg-green-900/50">
+                        <AgendaIcon />
+                    </button>
+                    <button title="Eliminar" onClick={() => deleteEvent(event.id)} className="p-1.5 rounded text-red-600 hover:bg-red-100 dark:hover:bg-red-900/50">
+                        <TrashIcon />
+                    </button>
+                </div>
+            ),
+        },
+    ];
+
+    return (
+        <div className="bg-white dark:bg-gray-800 p-4 md:p-6 rounded-lg shadow">
+            <div className="flex justify-between items-center mb-4">
+                <h3 className="text-xl font-semibold">Mis Eventos</h3>
+                <div className="flex gap-2">
+                    <button onClick={() => setIsImportOpen(true)} className="px-4 py-2 rounded-lg bg-gray-200 dark:bg-gray-700">Importar</button>
+                    <button onClick={() => handleOpenModal(null)} className="bg-primary-600 text-white px-4 py-2 rounded-lg hover:bg-primary-700">Añadir Evento</button>
+                </div>
+            </div>
+            <DataTable<Event> viewKey="events" userId={userId} source={EVENTS_TABLE_SOURCE} columns={columns} clients={clients} refreshKey={events} searchPlaceholder="Buscar por nombre, lugar u observaciones..." emptyMessage="Aún no tienes eventos." />
+            {isModalOpen && <EventFormModal event={selectedEvent} events={events} clients={clients} budgets={budgets} equipment={equipment} staffMembers={staffMembers} expenseCategories={expenseCategories} exchangeRates={exchangeRates} defaultCurrency={defaultCurrency} onSave={handleSave} onClose={() => setIsModalOpen(false)} />}
+            {isImportOpen && <ImportWizardModal entity="events" clients={clients} defaultCurrency={defaultCurrency} onImport={importData} onClose={() => setIsImportOpen(false)} />}
+        </div>
+    );
+};
+
+const EventFormModal: React.FC<{
+    event: Event | null,
+    events: Event[],
+    clients: Client[],
+    budgets: Budget[],
+    equipment: Equipment[],
+    staffMembers: StaffMember[],
+    expenseCategories: ExpenseCategory[],
+    exchangeRates: ExchangeRate[],
+    defaultCurrency: Currency,
+    onSave: (event: Event) => void,
+    onClose: () => void
+}> = ({ event, events, clients, budgets, equipment, staffMembers, expenseCategories, exchangeRates, defaultCurrency, onSave, onClose }) => {
+    const isNew = !event?.id;
+    const linkedBudget = event?.budget_id ? budgets.find(b => b.id === event.budget_id) : undefined;
+    const initialEventState = useMemo(() => {
+        return event 
+            ? {...event, date: event.date.split('T')[0], expenses: event.expenses.map(e => ({...e, id: Math.random().toString()})), payments: event.payments.map(p => ({...p, id: Math.random().toString(), date: p.date.split('T')[0]}))} 
+            : { id: '', user_id: '', client_id: clients[0]?.id || null, client: null, name: '', location: '', date: new Date().toISOString().split('T')[0], amount_charged: 0, currency: defaultCurrency, expenses: [], payments: [], equipment_ids: [], staff: [], observations: '', status: 'Confirmado' as EventStatus };
+    }, [event, clients, defaultCurrency]);
+
+    const [formData, setFormData] = useState<Event>(initialEventState);
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
+        const { name, value } = e.target;
+        setFormData(prev => ({...prev, [name]: name === 'amount_charged' ? parseFloat(value) : value }));
+    };
+
+    const handleExpenseChange = (index: number, field: 'type' | 'amount' | 'currency' | 'category_id', value: string | number) => {
+        const newExpenses = [...formData.expenses];
+        if (field === 'category_id') {
+            const category = expenseCategories.find(c => c.id === value);
+            newExpenses[index] = { ...newExpenses[index], category_id: category?.id || null, type: newExpenses[index].type || category?.name || '' };
+        } else if (field === 'amount') {
+            newExpenses[index] = { ...newExpenses[index], amount: Number(value) };
+        } else if (field === 'currency') {
+            newExpenses[index] = { ...newExpenses[index], currency: value as Currency };
+        } else {
+            newExpenses[index] = { ...newExpenses[index], type: String(value) };
+        }
+        setFormData(prev => ({...prev, expenses: newExpenses }));
+    };
+    
+    const addExpense = () => {
+        setFormData(prev => ({ ...prev, expenses: [...prev.expenses, { id: Math.random().toString(), type: '', amount: 0, currency: prev.currency }] }));
     };
     
     const removeExpense = (index: number) => {
         setFormData(prev => ({ ...prev, expenses: formData.expenses.filter((_, i) => i !== index) }));
     };
     
-    const totalExpenses = formData.expenses.reduce((sum, exp) => sum + exp.amount, 0);
+    const handlePaymentChange = (index: number, field: keyof EventPayment, value: string) => {
+        const newPayments = [...formData.payments];
+        newPayments[index] = { ...newPayments[index], [field]: field === 'amount' ? Number(value) : value };
+        setFormData(prev => ({...prev, payments: newPayments }));
+    };
+
+    const addPayment = () => {
+        const type: PaymentType = formData.payments.length === 0 ? 'Seña' : 'Cuota';
+        setFormData(prev => ({ ...prev, payments: [...prev.payments, { id: Math.random().toString(), type, amount: 0, method: 'Efectivo', date: new Date().toISOString().split('T')[0], receipt_note: '' }] }));
+    };
+
+    const removePayment = (index: number) => {
+        setFormData(prev => ({ ...prev, payments: prev.payments.filter((_, i) => i !== index) }));
+    };
+    
+    const updateStaff = (staff: EventStaffAssignment[]) => {
+        setFormData(prev => syncStaffExpenses({ ...prev, staff }, staffMembers));
+    };
+
+    const addStaff = (staffId: string) => {
+        const member = staffMembers.find(m => m.id === staffId);
+        if (!member) return;
+        updateStaff([...(formData.staff || []), { staff_id: member.id, fee: member.default_fee, paid: false }]);
+    };
+
+    const handleStaffChange = (index: number, field: 'fee' | 'paid', value: number | boolean) => {
+        const newStaff = [...(formData.staff || [])];
+        newStaff[index] = { ...newStaff[index], [field]: value };
+        updateStaff(newStaff);
+    };
+
+    const removeStaff = (index: number) => {
+        updateStaff((formData.staff || []).filter((_, i) => i !== index));
+    };
+
+    const unassignedStaff = staffMembers.filter(m => !formData.staff?.some(a => a.staff_id === m.id));
+
+    const toggleEquipment = (equipmentId: string) => {
+        setFormData(prev => {
+            const assigned = prev.equipment_ids || [];
+            return { ...prev, equipment_ids: assigned.includes(equipmentId) ? assigned.filter(id => id !== equipmentId) : [...assigned, equipmentId] };
+        });
+    };
+
+    // Other events on the same date that already have the item assigned.
+    const getBookedEvents = (equipmentId: string) =>
+        events.filter(e => e.id !== formData.id && getEventStatus(e) !== 'Cancelado' && getEventDateKey(e) === formData.date && e.equipment_ids?.includes(equipmentId));
+
+    const overlappingEvents = formData.date ? findOverlappingEvents(events, formData.date, formData.start_time, formData.end_time, formData.id) : [];
+
+    const assignableEquipment = equipment.filter(item => item.condition !== 'Dado de baja' || formData.equipment_ids?.includes(item.id));
+
+    const totalExpenses = getEventExpensesTotal(formData, exchangeRates);
     const netProfit = formData.amount_charged - totalExpenses;
+    const money = (amount: number) => formatCurrency(amount, formData.currency);
+    const totalPaid = getEventPaidAmount(formData);
+    const balance = getEventBalance(formData);
+    const savedStatus = event?.id ? getEventStatus(event) : null;
+    const statusOptions = savedStatus ? [savedStatus, ...EVENT_STATUS_TRANSITIONS[savedStatus]] : ['Tentativo', 'Confirmado'] as EventStatus[];
+    const isCancelled = getEventStatus(formData) === 'Cancelado';
 
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
@@ -1205,108 +2900,1309 @@ const EventFormModal: React.FC<{event: Event | null, clients: Client[], onSave:
             alert("Por favor, selecciona un cliente. Si no hay clientes, crea uno primero en la sección de Clientes.");
             return;
         }
-        onSave(formData);
+        if (isCancelled && (formData.refund_amount || 0) > totalPaid) {
+            alert("El reembolso no puede superar lo pagado por el cliente.");
+            return;
+        }
+        onSave(syncStaffExpenses(isCancelled ? formData : { ...formData, cancellation_reason: null, refund_amount: null }, staffMembers));
     };
 
     return (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50 p-4">
             <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
                  <h2 className="text-2xl font-bold mb-6">{isNew ? 'Añadir' : 'Editar'} Evento</h2>
+                 {linkedBudget && (
+                    <div className="mb-4 p-3 rounded bg-green-50 dark:bg-green-900/30 text-sm">
+                        Vinculado al presupuesto <span className="font-semibold">{linkedBudget.title}</span> ({linkedBudget.status}) por {formatCurrency(getBudgetTotal(linkedBudget), linkedBudget.currency)}.
+                    </div>
+                 )}
                 <form onSubmit={handleSubmit} className="space-y-4">
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                         <input type="text" name="name" value={formData.name} onChange={handleChange} placeholder="Nombre del Evento" className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" required />
                         <input type="text" name="location" value={formData.location} onChange={handleChange} placeholder="Lugar" className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" required />
                         <input type="date" name="date" value={formData.date} onChange={handleChange} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" required />
-                        <input type="number" name="amount_charged" value={formData.amount_charged} onChange={handleChange} placeholder="Monto Cobrado" className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" required />
+                        <div className="flex gap-2">
+                            <input type="time" name="start_time" value={formData.start_time || ''} onChange={handleChange} title="Hora de inicio" className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" />
+                            <input type="time" name="end_time" value={formData.end_time || ''} onChange={handleChange} title="Hora de fin" className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" />
+                        </div>
+                        <div className="flex gap-2">
+                            <input type="number" name="amount_charged" value={formData.amount_charged} onChange={handleChange} placeholder="Monto Cobrado" className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" required />
+                            <select name="currency" value={formData.currency || 'PYG'} onChange={handleChange} className="p-2 border rounded dark:bg-gray-700 dark:border-gray-600">
+                                {CURRENCIES.map(c => <option key={c} value={c}>{c}</option>)}
+                            </select>
+                        </div>
                     </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium mb-1">Estado</label>
+                            <select name="status" value={getEventStatus(formData)} onChange={handleChange} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600">
+                                {statusOptions.map(status => <option key={status} value={status}>{status}</option>)}
+                            </select>
+                            {getEventStatus(formData) === 'Tentativo' && <p className="text-xs text-gray-500 mt-1">Reserva sin confirmar: no suma a los ingresos hasta que la confirmes.</p>}
+                        </div>
+                        {isCancelled && (
+                            <div>
+                                <label className="block text-sm font-medium mb-1">Monto Reembolsado</label>
+                                <input type="number" name="refund_amount" value={formData.refund_amount || 0} min={0} max={totalPaid} onChange={e => setFormData(prev => ({ ...prev, refund_amount: Number(e.target.value) }))} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" />
+                                <p className="text-xs text-gray-500 mt-1">Pagado: {money(totalPaid)} · Retenido: {money(totalPaid - (formData.refund_amount || 0))}</p>
+                            </div>
+                        )}
+                    </div>
+                    {isCancelled && (
+                        <textarea name="cancellation_reason" value={formData.cancellation_reason || ''} onChange={handleChange} placeholder="Motivo de la cancelación" rows={2} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" required />
+                    )}
+                    {overlappingEvents.length > 0 && !isCancelled && (
+                        <div className="p-3 rounded bg-yellow-50 dark:bg-yellow-900/30 text-sm text-yellow-800 dark:text-yellow-300">
+                            Este horario se superpone con: {describeOverlaps(overlappingEvents)}
+                        </div>
+                    )}
                     <div>
                         <label className="block text-sm font-medium mb-1">Cliente</label>
                         <select name="client_id" value={formData.client_id || ''} onChange={handleChange} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" required>
                             {clients.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
                         </select>
                     </div>
+                    <div className="border-t pt-4">
+                        <h3 className="font-semibold mb-2">Personal</h3>
+                        {(formData.staff || []).map((assignment, i) => {
+                            const member = staffMembers.find(m => m.id === assignment.staff_id);
+                            return (
+                                <div key={assignment.staff_id} className="flex items-center space-x-2 mb-2">
+                                    <span className="w-full text-sm">{member ? `${member.name} (${member.role})` : 'Personal eliminado'}</span>
+                                    <input type="number" value={assignment.fee} onChange={e => handleStaffChange(i, 'fee', Number(e.target.value))} placeholder="Honorario" className="w-40 p-2 border rounded dark:bg-gray-700 dark:border-gray-600" />
+                                    <label className="flex items-center space-x-1 text-sm whitespace-nowrap">
+                                        <input type="checkbox" checked={assignment.paid} onChange={e => handleStaffChange(i, 'paid', e.target.checked)} />
+                                        <span>Pagado</span>
+                                    </label>
+                                    <button type="button" onClick={() => removeStaff(i)} className="p-2 text-red-500"><TrashIcon /></button>
+                                </div>
+                            );
+                        })}
+                        {unassignedStaff.length > 0 ? (
+                            <select value="" onChange={e => addStaff(e.target.value)} className="p-2 border rounded dark:bg-gray-700 dark:border-gray-600">
+                                <option value="">+ Asignar personal...</option>
+                                {unassignedStaff.map(m => <option key={m.id} value={m.id}>{m.name} ({m.role})</option>)}
+                            </select>
+                        ) : staffMembers.length === 0 && <p className="text-sm text-gray-500">No hay personal registrado.</p>}
+                        <p className="text-xs text-gray-500 mt-1">Los honorarios se agregan automáticamente a los gastos del evento.</p>
+                    </div>
                     <div className="border-t pt-4">
                         <h3 className="font-semibold mb-2">Gastos</h3>
                         {formData.expenses.map((exp, i) => (
                             <div key={exp.id} className="flex items-center space-x-2 mb-2">
-                                <input type="text" value={exp.type} onChange={e => handleExpenseChange(i, 'type', e.target.value)} placeholder="Tipo de Gasto" className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" />
-                                <input type="number" value={exp.amount} onChange={e => handleExpenseChange(i, 'amount', e.target.value)} placeholder="Monto" className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" />
-                                <button type="button" onClick={() => removeExpense(i)} className="p-2 text-red-500"><TrashIcon /></button>
+                                {expenseCategories.length > 0 && !exp.staff_id && (
+                                    <select value={exp.category_id || ''} onChange={e => handleExpenseChange(i, 'category_id', e.target.value)} className="p-2 border rounded dark:bg-gray-700 dark:border-gray-600">
+                                        <option value="">Categoría...</option>
+                                        {expenseCategories.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                                    </select>
+                                )}
+                                <input type="text" value={exp.type} onChange={e => handleExpenseChange(i, 'type', e.target.value)} placeholder="Descripción del Gasto" disabled={!!exp.staff_id} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600 disabled:opacity-70" />
+                                <input type="number" value={exp.amount} onChange={e => handleExpenseChange(i, 'amount', e.target.value)} placeholder="Monto" disabled={!!exp.staff_id} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600 disabled:opacity-70" />
+                                <select value={exp.currency || formData.currency || 'PYG'} onChange={e => handleExpenseChange(i, 'currency', e.target.value)} disabled={!!exp.staff_id} className="p-2 border rounded dark:bg-gray-700 dark:border-gray-600 disabled:opacity-70">
+                                    {CURRENCIES.map(c => <option key={c} value={c}>{c}</option>)}
+                                </select>
+                                {exp.staff_id
+                                    ? <span title="Generado desde Personal; edítalo en la sección Personal" className="p-2 text-gray-400"><StaffIcon /></span>
+                                    : <button type="button" onClick={() => removeExpense(i)} className="p-2 text-red-500"><TrashIcon /></button>}
                             </div>
                         ))}
                         <button type="button" onClick={addExpense} className="flex items-center text-primary-600"><PlusIcon /> <span className="ml-1">Añadir Gasto</span></button>
-                        <p className="text-right font-semibold">Total Gastos: {formatGuarani(totalExpenses)}</p>
+                        {expenseCategories.length === 0 && <p className="text-xs text-gray-500 mt-1">Crea categorías de gastos en Configuración para agruparlos en los reportes.</p>}
+                        <p className="text-right font-semibold">Total Gastos: {money(totalExpenses)}</p>
+                    </div>
+                    <div className="border-t pt-4">
+                        <h3 className="font-semibold mb-2">Pagos</h3>
+                        {formData.payments.map((payment, i) => (
+                            <div key={payment.id} className="grid grid-cols-12 gap-2 mb-2">
+                                <select value={payment.type} onChange={e => handlePaymentChange(i, 'type', e.target.value)} className="col-span-2 p-2 border rounded dark:bg-gray-700 dark:border-gray-600">
+                                    {PAYMENT_TYPES.map(t => <option key={t}>{t}</option>)}
+                                </select>
+                                <input type="number" value={payment.amount} onChange={e => handlePaymentChange(i, 'amount', e.target.value)} placeholder="Monto" className="col-span-2 p-2 border rounded dark:bg-gray-700 dark:border-gray-600" />
+                                <select value={payment.method} onChange={e => handlePaymentChange(i, 'method', e.target.value)} className="col-span-2 p-2 border rounded dark:bg-gray-700 dark:border-gray-600">
+                                    {PAYMENT_METHODS.map(m => <option key={m}>{m}</option>)}
+                                </select>
+                                <input type="date" value={payment.date} onChange={e => handlePaymentChange(i, 'date', e.target.value)} className="col-span-2 p-2 border rounded dark:bg-gray-700 dark:border-gray-600" />
+                                <input type="text" value={payment.receipt_note || ''} onChange={e => handlePaymentChange(i, 'receipt_note', e.target.value)} placeholder="Nro. de recibo / nota" className="col-span-3 p-2 border rounded dark:bg-gray-700 dark:border-gray-600" />
+                                <button type="button" onClick={() => removePayment(i)} className="col-span-1 p-2 text-red-500"><TrashIcon /></button>
+                            </div>
+                        ))}
+                        <button type="button" onClick={addPayment} className="flex items-center text-primary-600"><PlusIcon /> <span className="ml-1">Registrar Pago</span></button>
+                        <p className="text-right font-semibold">Total Pagado: {money(totalPaid)}</p>
+                        <p className={`text-right font-semibold ${balance > 0 ? 'text-yellow-600' : 'text-green-600'}`}>Saldo Pendiente: {money(balance)}</p>
+                    </div>
+                    <div className="border-t pt-4">
+                        <h3 className="font-semibold mb-2">Equipos Asignados</h3>
+                        {assignableEquipment.length === 0 ? (
+                            <p className="text-sm text-gray-500">No hay equipos en el inventario.</p>
+                        ) : (
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-2 max-h-48 overflow-y-auto">
+                                {assignableEquipment.map(item => {
+                                    const bookedEvents = getBookedEvents(item.id);
+                                    return (
+                                        <label key={item.id} className="flex items-start space-x-2 text-sm">
+                                            <input type="checkbox" checked={formData.equipment_ids?.includes(item.id) || false} onChange={() => toggleEquipment(item.id)} className="mt-1" />
+                                            <span>
+                                                {item.name} <span className="text-gray-500">({item.category})</span>
+                                                {bookedEvents.length > 0 && <span className="block text-xs text-red-600">Ya asignado a: {bookedEvents.map(e => e.name).join(', ')}</span>}
+                                            </span>
+                                        </label>
+                                    );
+                                })}
+                            </div>
+                        )}
                     </div>
                      <textarea name="observations" value={formData.observations} onChange={handleChange} placeholder="Observaciones..." rows={3} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" />
-                     <div className="text-right font-bold text-lg">Ganancia Neta del Evento: {formatGuarani(netProfit)}</div>
+                     <div className="text-right font-bold text-lg">Ganancia Neta del Evento: {money(netProfit)}</div>
                      <div className="flex justify-end space-x-4 pt-4">
                         <button type="button" onClick={onClose} className="px-4 py-2 rounded bg-gray-200 dark:bg-gray-600">Cancelar</button>
                         <button type="submit" className="px-4 py-2 rounded bg-primary-600 text-white">Guardar Evento</button>
                     </div>
-                </form>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+const StaffPage: React.FC<{
+    staffMembers: StaffMember[];
+    events: Event[];
+    saveStaffMember: (member: StaffMember) => Promise<void>;
+    deleteStaffMember: (id: string) => Promise<void>;
+}> = ({ staffMembers, events, saveStaffMember, deleteStaffMember }) => {
+    const [isModalOpen, setIsModalOpen] = useState(false);
+    const [selectedMember, setSelectedMember] = useState<StaffMember | null>(null);
+
+    const today = new Date().toISOString().split('T')[0];
+
+    const handleOpenModal = (member: StaffMember | null) => {
+        setSelectedMember(member);
+        setIsModalOpen(true);
+    };
+
+    const handleSave = async (member: StaffMember) => {
+        await saveStaffMember(member);
+        setIsModalOpen(false);
+    };
+
+    const getNextEvent = (staffId: string) =>
+        events
+            .filter(e => getEventDateKey(e) >= today && e.staff?.some(a => a.staff_id === staffId))
+            .sort((a, b) => a.date.localeCompare(b.date))[0];
+
+    return (
+        <div className="bg-white dark:bg-gray-800 p-4 md:p-6 rounded-lg shadow">
+            <div className="flex justify-between items-center mb-4">
+                <h3 className="text-xl font-semibold">Mi Personal</h3>
+                <button onClick={() => handleOpenModal(null)} className="bg-primary-600 text-white px-4 py-2 rounded-lg hover:bg-primary-700">Añadir Personal</button>
+            </div>
+            <div className="overflow-x-auto">
+                <table className="w-full text-left">
+                    <thead>
+                        <tr className="border-b dark:border-gray-700">
+                            <th className="p-2">Nombre</th><th className="p-2">Rol</th><th className="p-2">Teléfono</th><th className="p-2">Honorario Base</th><th className="p-2">Próximo Evento</th><th className="p-2">Acciones</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {staffMembers.map(member => {
+                            const nextEvent = getNextEvent(member.id);
+                            return (
+                                <tr key={member.id} className="border-b dark:border-gray-700">
+                                    <td className="p-2">{member.name}</td>
+                                    <td className="p-2">{member.role}</td>
+                                    <td className="p-2">{member.phone || '-'}</td>
+                                    <td className="p-2">{formatCurrency(member.default_fee)}</td>
+                                    <td className="p-2">{nextEvent ? `${nextEvent.name} (${new Date(nextEvent.date).toLocaleDateString()})` : '-'}</td>
+                                    <td className="p-2">
+                                        <div className="flex items-center space-x-2">
+                                            <button title="Editar" onClick={() => handleOpenModal(member)} className="p-1.5 rounded text-blue-600 hover:bg-blue-100 dark:hover:bg-blue-900/50">
+                                                <EditIcon />
+                                            </button>
+                                            <button title="Eliminar" onClick={() => deleteStaffMember(member.id)} className="p-1.5 rounded text-red-600 hover:bg-red-100 dark:hover:bg-red-900/50">
+                                                <TrashIcon />
+                                            </button>
+                                        </div>
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+            {isModalOpen && <StaffFormModal member={selectedMember} onSave={handleSave} onClose={() => setIsModalOpen(false)} />}
+        </div>
+    );
+};
+
+const StaffFormModal: React.FC<{member: StaffMember | null, onSave: (member: StaffMember) => void, onClose: () => void}> = ({ member, onSave, onClose }) => {
+    const isNew = !member?.id;
+    const [formData, setFormData] = useState<StaffMember>(member || { id: '', user_id: '', name: '', role: 'DJ Asistente', phone: '', email: '', default_fee: 0, notes: '', created_at: '' });
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
+        const { name, value } = e.target;
+        setFormData(prev => ({ ...prev, [name]: name === 'default_fee' ? Number(value) : value }));
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        onSave(formData);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50 p-4">
+            <div className="bg-white dark:bg-gray-800 p-8 rounded-lg shadow-xl w-full max-w-lg">
+                <h2 className="text-2xl font-bold mb-6">{isNew ? 'Añadir' : 'Editar'} Personal</h2>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <input type="text" name="name" value={formData.name} onChange={handleChange} placeholder="Nombre Completo" className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" required />
+                    <select name="role" value={formData.role} onChange={handleChange} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600">
+                        {STAFF_ROLES.map(r => <option key={r}>{r}</option>)}
+                    </select>
+                    <input type="tel" name="phone" value={formData.phone || ''} onChange={handleChange} placeholder="Teléfono" className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" />
+                    <input type="email" name="email" value={formData.email || ''} onChange={handleChange} placeholder="Email (Opcional)" className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" />
+                    <div>
+                        <label className="block text-sm font-medium mb-1">Honorario Base por Evento (Gs.)</label>
+                        <input type="number" name="default_fee" value={formData.default_fee} onChange={handleChange} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" required />
+                    </div>
+                    <textarea name="notes" value={formData.notes || ''} onChange={handleChange} placeholder="Notas..." rows={3} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" />
+                    <div className="flex justify-end space-x-4 pt-4">
+                        <button type="button" onClick={onClose} className="px-4 py-2 rounded bg-gray-200 dark:bg-gray-600">Cancelar</button>
+                        <button type="submit" className="px-4 py-2 rounded bg-primary-600 text-white">Guardar Personal</button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+const InventoryPage: React.FC<{
+    equipment: Equipment[];
+    events: Event[];
+    saveEquipment: (item: Equipment) => Promise<void>;
+    deleteEquipment: (id: string) => Promise<void>;
+}> = ({ equipment, events, saveEquipment, deleteEquipment }) => {
+    const [isModalOpen, setIsModalOpen] = useState(false);
+    const [selectedItem, setSelectedItem] = useState<Equipment | null>(null);
+
+    const today = new Date().toISOString().split('T')[0];
+    const totalCost = equipment.reduce((sum, item) => sum + item.purchase_cost, 0);
+
+    const handleOpenModal = (item: Equipment | null) => {
+        setSelectedItem(item);
+        setIsModalOpen(true);
+    };
+
+    const handleSave = async (item: Equipment) => {
+        await saveEquipment(item);
+        setIsModalOpen(false);
+    };
+
+    const getNextEvent = (equipmentId: string) =>
+        events
+            .filter(e => getEventDateKey(e) >= today && e.equipment_ids?.includes(equipmentId))
+            .sort((a, b) => a.date.localeCompare(b.date))[0];
+
+    return (
+        <div className="bg-white dark:bg-gray-800 p-4 md:p-6 rounded-lg shadow">
+            <div className="flex justify-between items-center mb-4">
+                <div>
+                    <h3 className="text-xl font-semibold">Inventario de Equipos</h3>
+                    <p className="text-sm text-gray-500">{equipment.length} equipos · Inversión total: {formatCurrency(totalCost)}</p>
+                </div>
+                <button onClick={() => handleOpenModal(null)} className="bg-primary-600 text-white px-4 py-2 rounded-lg hover:bg-primary-700">Añadir Equipo</button>
+            </div>
+            <div className="overflow-x-auto">
+                <table className="w-full text-left">
+                    <thead>
+                        <tr className="border-b dark:border-gray-700">
+                            <th className="p-2">Equipo</th><th className="p-2">Categoría</th><th className="p-2">Nro. de Serie</th><th className="p-2">Costo</th><th className="p-2">Estado</th><th className="p-2">Próximo Evento</th><th className="p-2">Acciones</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {equipment.map(item => {
+                            const nextEvent = getNextEvent(item.id);
+                            return (
+                                <tr key={item.id} className="border-b dark:border-gray-700">
+                                    <td className="p-2">{item.name}</td>
+                                    <td className="p-2">{item.category}</td>
+                                    <td className="p-2">{item.serial_number || '-'}</td>
+                                    <td className="p-2">{formatCurrency(item.purchase_cost)}</td>
+                                    <td className="p-2">
+                                        <span className={`px-2 py-1 text-xs font-semibold rounded-full ${
+                                            item.condition === 'En reparación' ? 'bg-yellow-100 text-yellow-800' :
+                                            item.condition === 'Dado de baja' ? 'bg-red-100 text-red-800' :
+                                            'bg-green-100 text-green-800'
+                                        }`}>{item.condition}</span>
+                                    </td>
+                                    <td className="p-2">{nextEvent ? `${nextEvent.name} (${new Date(nextEvent.date).toLocaleDateString()})` : '-'}</td>
+                                    <td className="p-2">
+                                        <div className="flex items-center space-x-2">
+                                            <button title="Editar" onClick={() => handleOpenModal(item)} className="p-1.5 rounded text-blue-600 hover:bg-blue-100 dark:hover:bg-blue-900/50">
+                                                <EditIcon />
+                                            </button>
+                                            <button title="Eliminar" onClick={() => deleteEquipment(item.id)} className="p-1.5 rounded text-red-600 hover:bg-red-100 dark:hover:bg-red-900/50">
+                                                <TrashIcon />
+                                            </button>
+                                        </div>
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+            {isModalOpen && <EquipmentFormModal item={selectedItem} onSave={handleSave} onClose={() => setIsModalOpen(false)} />}
+        </div>
+    );
+};
+
+const EquipmentFormModal: React.FC<{item: Equipment | null, onSave: (item: Equipment) => void, onClose: () => void}> = ({ item, onSave, onClose }) => {
+    const isNew = !item?.id;
+    const [formData, setFormData] = useState<Equipment>(item
+        ? { ...item, purchase_date: item.purchase_date?.split('T')[0] }
+        : { id: '', user_id: '', name: '', category: 'Sonido', serial_number: '', purchase_cost: 0, purchase_date: '', condition: 'Nuevo', notes: '', created_at: '' });
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
+        const { name, value } = e.target;
+        setFormData(prev => ({ ...prev, [name]: name === 'purchase_cost' ? Number(value) : value }));
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        onSave(formData);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50 p-4">
+            <div className="bg-white dark:bg-gray-800 p-8 rounded-lg shadow-xl w-full max-w-lg">
+                <h2 className="text-2xl font-bold mb-6">{isNew ? 'Añadir' : 'Editar'} Equipo</h2>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <input type="text" name="name" value={formData.name} onChange={handleChange} placeholder="Nombre (ej. Parlante JBL PRX815)" className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" required />
+                    <div className="grid grid-cols-2 gap-4">
+                        <select name="category" value={formData.category} onChange={handleChange} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600">
+                            {EQUIPMENT_CATEGORIES.map(c => <option key={c}>{c}</option>)}
+                        </select>
+                        <select name="condition" value={formData.condition} onChange={handleChange} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600">
+                            {EQUIPMENT_CONDITIONS.map(c => <option key={c}>{c}</option>)}
+                        </select>
+                    </div>
+                    <input type="text" name="serial_number" value={formData.serial_number || ''} onChange={handleChange} placeholder="Nro. de Serie (Opcional)" className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" />
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium mb-1">Costo de Compra (Gs.)</label>
+                            <input type="number" name="purchase_cost" value={formData.purchase_cost} onChange={handleChange} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" required />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium mb-1">Fecha de Compra</label>
+                            <input type="date" name="purchase_date" value={formData.purchase_date || ''} onChange={handleChange} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" />
+                        </div>
+                    </div>
+                    <textarea name="notes" value={formData.notes || ''} onChange={handleChange} placeholder="Notas..." rows={3} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" />
+                    <div className="flex justify-end space-x-4 pt-4">
+                        <button type="button" onClick={onClose} className="px-4 py-2 rounded bg-gray-200 dark:bg-gray-600">Cancelar</button>
+                        <button type="submit" className="px-4 py-2 rounded bg-primary-600 text-white">Guardar Equipo</button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+const BusinessExpensesPage: React.FC<{
+    businessExpenses: BusinessExpense[];
+    expenseCategories: ExpenseCategory[];
+    exchangeRates: ExchangeRate[];
+    baseCurrency: Currency;
+    saveBusinessExpense: (expense: BusinessExpense) => Promise<void>;
+    deleteBusinessExpense: (id: string) => Promise<void>;
+}> = ({ businessExpenses, expenseCategories, exchangeRates, baseCurrency, saveBusinessExpense, deleteBusinessExpense }) => {
+    const [isModalOpen, setIsModalOpen] = useState(false);
+    const [selectedExpense, setSelectedExpense] = useState<BusinessExpense | null>(null);
+
+    const currentMonth = toDateKey(new Date()).slice(0, 7);
+    const currentMonthOverhead = getOverheadForMonth(businessExpenses, currentMonth, exchangeRates, baseCurrency);
+    const missingRates = getMissingRateCurrencies(businessExpenses.map(e => e.currency), exchangeRates, baseCurrency);
+
+    const handleOpenModal = (expense: BusinessExpense | null) => {
+        setSelectedExpense(expense);
+        setIsModalOpen(true);
+    };
+
+    const handleSave = async (expense: BusinessExpense) => {
+        await saveBusinessExpense(expense);
+        setIsModalOpen(false);
+    };
+
+    return (
+        <div className="bg-white dark:bg-gray-800 p-4 md:p-6 rounded-lg shadow">
+            <div className="flex justify-between items-center mb-4">
+                <div>
+                    <h3 className="text-xl font-semibold">Gastos Generales</h3>
+                    <p className="text-sm text-gray-500">Gastos del negocio que no pertenecen a un evento · Este mes: {formatCurrency(currentMonthOverhead, baseCurrency)}</p>
+                </div>
+                <button onClick={() => handleOpenModal(null)} className="bg-primary-600 text-white px-4 py-2 rounded-lg hover:bg-primary-700">Añadir Gasto</button>
+            </div>
+            <MissingRatesWarning missing={missingRates} baseCurrency={baseCurrency} className="mb-4" />
+            <div className="overflow-x-auto">
+                <table className="w-full text-left">
+                    <thead>
+                        <tr className="border-b dark:border-gray-700">
+                            <th className="p-2">Descripción</th><th className="p-2">Categoría</th><th className="p-2">Monto</th><th className="p-2">Frecuencia</th><th className="p-2">Desde</th><th className="p-2">Hasta</th><th className="p-2">Acciones</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {businessExpenses.map(expense => {
+                            const isActive = isBusinessExpenseInMonth(expense, currentMonth);
+                            return (
+                                <tr key={expense.id} className="border-b dark:border-gray-700">
+                                    <td className="p-2">{expense.description}</td>
+                                    <td className="p-2">{expenseCategories.find(c => c.id === expense.category_id)?.name || '-'}</td>
+                                    <td className="p-2">{formatCurrency(expense.amount, expense.currency)}</td>
+                                    <td className="p-2">
+                                        <span className={`px-2 py-1 text-xs font-semibold rounded-full ${isActive ? 'bg-blue-100 text-blue-800' : 'bg-gray-100 text-gray-800'}`}>{expense.recurrence}</span>
+                                    </td>
+                                    <td className="p-2">{new Date(expense.date).toLocaleDateString('es-ES', { timeZone: 'UTC' })}</td>
+                                    <td className="p-2">{expense.recurrence === 'Única' ? '-' : expense.end_date ? new Date(expense.end_date).toLocaleDateString('es-ES', { timeZone: 'UTC' }) : 'Sin fin'}</td>
+                                    <td className="p-2">
+                                        <div className="flex items-center space-x-2">
+                                            <button title="Editar" onClick={() => handleOpenModal(expense)} className="p-1.5 rounded text-blue-600 hover:bg-blue-100 dark:hover:bg-blue-900/50">
+                                                <EditIcon />
+                                            </button>
+                                            <button title="Eliminar" onClick={() => deleteBusinessExpense(expense.id)} className="p-1.5 rounded text-red-600 hover:bg-red-100 dark:hover:bg-red-900/50">
+                                                <TrashIcon />
+                                            </button>
+                                        </div>
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+                {businessExpenses.length === 0 && <p className="text-center text-gray-500 py-6">Registra aquí el alquiler, las suscripciones, la publicidad o la compra de equipos para ver tu ganancia real en Reportes.</p>}
+            </div>
+            {isModalOpen && <BusinessExpenseFormModal expense={selectedExpense} expenseCategories={expenseCategories} baseCurrency={baseCurrency} onSave={handleSave} onClose={() => setIsModalOpen(false)} />}
+        </div>
+    );
+};
+
+const BusinessExpenseFormModal: React.FC<{
+    expense: BusinessExpense | null,
+    expenseCategories: ExpenseCategory[],
+    baseCurrency: Currency,
+    onSave: (expense: BusinessExpense) => void,
+    onClose: () => void
+}> = ({ expense, expenseCategories, baseCurrency, onSave, onClose }) => {
+    const isNew = !expense?.id;
+    const [formData, setFormData] = useState<BusinessExpense>(expense
+        ? { ...expense, date: expense.date.split('T')[0], end_date: expense.end_date?.split('T')[0] || null }
+        : { id: '', user_id: '', description: '', category_id: null, amount: 0, currency: baseCurrency, date: toDateKey(new Date()), recurrence: 'Mensual', end_date: null, notes: '', created_at: '' });
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
+        const { name, value } = e.target;
+        setFormData(prev => ({ ...prev, [name]: name === 'amount' ? Number(value) : value }));
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        onSave({ ...formData, category_id: formData.category_id || null, end_date: formData.recurrence === 'Única' ? null : formData.end_date || null });
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50 p-4">
+            <div className="bg-white dark:bg-gray-800 p-8 rounded-lg shadow-xl w-full max-w-lg">
+                <h2 className="text-2xl font-bold mb-6">{isNew ? 'Añadir' : 'Editar'} Gasto General</h2>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <input type="text" name="description" value={formData.description} onChange={handleChange} placeholder="Descripción (ej. Alquiler del depósito)" className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" required />
+                    <div className="grid grid-cols-2 gap-4">
+                        <select name="category_id" value={formData.category_id || ''} onChange={handleChange} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600">
+                            <option value="">Sin categoría</option>
+                            {expenseCategories.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                        </select>
+                        <select name="recurrence" value={formData.recurrence} onChange={handleChange} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600">
+                            {BUSINESS_EXPENSE_RECURRENCES.map(r => <option key={r}>{r}</option>)}
+                        </select>
+                    </div>
+                    <div className="grid grid-cols-3 gap-4">
+                        <input type="number" name="amount" value={formData.amount} onChange={handleChange} placeholder="Monto" className="col-span-2 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" required />
+                        <select name="currency" value={formData.currency} onChange={handleChange} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600">
+                            {CURRENCIES.map(c => <option key={c} value={c}>{c}</option>)}
+                        </select>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium mb-1">{formData.recurrence === 'Única' ? 'Fecha' : 'Primer Cobro'}</label>
+                            <input type="date" name="date" value={formData.date} onChange={handleChange} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" required />
+                        </div>
+                        {formData.recurrence !== 'Única' && (
+                            <div>
+                                <label className="block text-sm font-medium mb-1">Hasta (Opcional)</label>
+                                <input type="date" name="end_date" value={formData.end_date || ''} min={formData.date} onChange={handleChange} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" />
+                            </div>
+                        )}
+                    </div>
+                    <textarea name="notes" value={formData.notes || ''} onChange={handleChange} placeholder="Notas..." rows={3} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" />
+                    <div className="flex justify-end space-x-4 pt-4">
+                        <button type="button" onClick={onClose} className="px-4 py-2 rounded bg-gray-200 dark:bg-gray-600">Cancelar</button>
+                        <button type="submit" className="px-4 py-2 rounded bg-primary-600 text-white">Guardar Gasto</button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+type ImportEntity = 'clients' | 'events';
+type ImportField = { key: string; label: string; required?: boolean; aliases: string[] };
+type ImportPlan = {
+    clients: Client[]; // New clients; `id` holds a temporary key referenced by the events below
+    events: Event[];
+};
+type ImportRowResult = { rowNumber: number; label: string; status: 'create' | 'skip' | 'error'; messages: string[] };
+
+const IMPORT_FIELDS: Record<ImportEntity, ImportField[]> = {
+    clients: [
+        { key: 'name', label: 'Nombre', required: true, aliases: ['nombre', 'cliente', 'name', 'nombre completo'] },
+        { key: 'phone', label: 'Teléfono', aliases: ['telefono', 'celular', 'phone', 'tel', 'whatsapp'] },
+        { key: 'email', label: 'Email', aliases: ['email', 'correo', 'e-mail', 'mail'] },
+        { key: 'company_name', label: 'Empresa', aliases: ['empresa', 'razon social', 'company'] },
+        { key: 'ruc', label: 'RUC', aliases: ['ruc', 'ci', 'documento'] },
+        { key: 'billing_address', label: 'Dirección', aliases: ['direccion', 'address', 'domicilio'] },
+        { key: 'tags', label: 'Etiquetas', aliases: ['etiquetas', 'tags', 'tipo'] },
+        { key: 'birthday', label: 'Cumpleaños', aliases: ['cumpleanos', 'nacimiento', 'birthday'] },
+        { key: 'notes', label: 'Notas', aliases: ['notas', 'observaciones', 'notes'] },
+    ],
+    events: [
+        { key: 'name', label: 'Evento', required: true, aliases: ['evento', 'nombre del evento', 'event', 'nombre'] },
+        { key: 'date', label: 'Fecha', required: true, aliases: ['fecha', 'date', 'dia'] },
+        { key: 'start_time', label: 'Hora de inicio', aliases: ['hora inicio', 'inicio', 'hora'] },
+        { key: 'end_time', label: 'Hora de fin', aliases: ['hora fin', 'fin'] },
+        { key: 'location', label: 'Lugar', aliases: ['lugar', 'ubicacion', 'local', 'location'] },
+        { key: 'client_name', label: 'Cliente', required: true, aliases: ['cliente', 'client'] },
+        { key: 'client_phone', label: 'Teléfono del cliente', aliases: ['telefono', 'celular', 'phone'] },
+        { key: 'client_email', label: 'Email del cliente', aliases: ['email', 'correo'] },
+        { key: 'amount_charged', label: 'Monto cobrado', required: true, aliases: ['monto', 'precio', 'total', 'cobrado', 'importe'] },
+        { key: 'currency', label: 'Moneda', aliases: ['moneda', 'currency'] },
+        { key: 'expenses', label: 'Gastos (Tipo: monto; ...)', aliases: ['gastos', 'expenses'] },
+        { key: 'observations', label: 'Observaciones', aliases: ['observaciones', 'notas', 'notes'] },
+    ],
+};
+
+const guessColumnMapping = (fields: ImportField[], headers: string[]) => {
+    const normalizedHeaders = headers.map(normalizeName);
+    const mapping: Record<string, number> = {};
+    const used = new Set<number>();
+    fields.forEach(field => {
+        let index = normalizedHeaders.findIndex((h, i) => !used.has(i) && field.aliases.includes(h));
+        if (index === -1) index = normalizedHeaders.findIndex((h, i) => !used.has(i) && field.aliases.some(alias => h.includes(alias)));
+        if (index !== -1) {
+            mapping[field.key] = index;
+            used.add(index);
+        }
+    });
+    return mapping;
+};
+
+const importCellText = (value: unknown) => value instanceof Date ? toDateKey(value) : String(value ?? '').trim();
+
+// Accepts spreadsheet dates, ISO dates and the local DD/MM/YYYY format.
+// Impossible dates such as 31/02/2024 or 2024-13-40 are rejected instead of reaching the database.
+const parseImportDate = (value: unknown): string | null => {
+    if (value instanceof Date) return isNaN(value.getTime()) ? null : toDateKey(value);
+    const text = importCellText(value);
+    if (!text) return null;
+    const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+    const local = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})$/);
+    if (!iso && !local) return null;
+    const [year, month, day] = iso
+        ? [Number(iso[1]), Number(iso[2]), Number(iso[3])]
+        : [Number(local![3].length === 2 ? `20${local![3]}` : local![3]), Number(local![2]), Number(local![1])];
+    const daysInMonth = new Date(year, month, 0).getDate();
+    if (month < 1 || month > 12 || day < 1 || day > daysInMonth) return null;
+    return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+const parseImportTime = (value: unknown): string | null => {
+    if (value instanceof Date) return `${String(value.getHours()).padStart(2, '0')}:${String(value.getMinutes()).padStart(2, '0')}`;
+    const match = importCellText(value).match(/^(\d{1,2})(?:[:.h](\d{2}))?\s*(?:hs?)?$/i);
+    if (!match || Number(match[1]) > 23) return null;
+    return `${match[1].padStart(2, '0')}:${match[2] || '00'}`;
+};
+
+// Handles plain numbers and the "1.500.000" thousands format common in guaraní spreadsheets.
+const parseImportNumber = (value: unknown): number | null => {
+    if (typeof value === 'number') return value;
+    let text = importCellText(value).replace(/[^\d.,-]/g, '');
+    if (!text) return null;
+    if (/^-?\d{1,3}(\.\d{3})+(,\d+)?$/.test(text)) text = text.replace(/\./g, '').replace(',', '.');
+    else text = text.replace(',', '.');
+    const number = Number(text);
+    return isNaN(number) ? null : number;
+};
+
+// CSV cells are kept as typed text: SheetJS would otherwise read 05/03/2024 as a US date and
+// drop the leading zero of phones and RUCs. parseImportDate/parseImportNumber do the conversion.
+const readSpreadsheetRows = async (file: File): Promise<unknown[][]> => {
+    const workbook = file.name.toLowerCase().endsWith('.csv')
+        ? XLSX.read(await file.text(), { type: 'string', raw: true })
+        : XLSX.read(await file.arrayBuffer(), { cellDates: true });
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    return XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: true, defval: '' })
+        .filter(row => row.some(cell => importCellText(cell) !== ''));
+};
+
+// Validates every row and decides what would be written, without touching the database.
+const buildImportPlan = (entity: ImportEntity, rows: unknown[][], mapping: Record<string, number>, existingClients: Client[], defaultCurrency: Currency) => {
+    const plan: ImportPlan = { clients: [], events: [] };
+    const results: ImportRowResult[] = [];
+    const cell = (row: unknown[], key: string) => mapping[key] === undefined ? '' : row[mapping[key]];
+    const text = (row: unknown[], key: string) => importCellText(cell(row, key));
+
+    const resolveClient = (candidate: Partial<Client>): { client: Client; isNew: boolean } => {
+        const known = [...existingClients, ...plan.clients];
+        const match = findDuplicateClients(candidate, known).find(m => m.strong)
+            || known.find(c => normalizeName(c.name) === normalizeName(candidate.name));
+        if (match) return { client: 'client' in match ? match.client : match, isNew: false };
+        const client: Client = { id: `import-${plan.clients.length}`, user_id: '', name: candidate.name || '', phone: candidate.phone || '', email: candidate.email, tags: [] };
+        plan.clients.push(client);
+        return { client, isNew: true };
+    };
+
+    rows.forEach((row, index) => {
+        const rowNumber = index + 2; // Row 1 holds the headers
+        const messages: string[] = [];
+        const email = text(row, entity === 'clients' ? 'email' : 'client_email');
+        if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) messages.push(`Email inválido: ${email}`);
+
+        if (entity === 'clients') {
+            const name = text(row, 'name');
+            if (!name) messages.push('Falta el nombre');
+            const birthdayText = text(row, 'birthday');
+            const birthday = parseImportDate(cell(row, 'birthday'));
+            if (birthdayText && !birthday) messages.push(`Fecha de cumpleaños inválida: ${birthdayText}`);
+            if (messages.length > 0) {
+                results.push({ rowNumber, label: name || '-', status: 'error', messages });
+                return;
+            }
+            const candidate: Partial<Client> = { name, phone: text(row, 'phone'), email: email || undefined, ruc: text(row, 'ruc') || undefined };
+            const duplicate = findDuplicateClients(candidate, [...existingClients, ...plan.clients]).find(m => m.strong);
+            if (duplicate) {
+                results.push({ rowNumber, label: name, status: 'skip', messages: [`Ya existe como "${duplicate.client.name}" (${duplicate.reasons.join(', ')})`] });
+                return;
+            }
+            plan.clients.push({
+                id: `import-${plan.clients.length}`,
+                user_id: '',
+                name,
+                phone: candidate.phone || '',
+                email: candidate.email,
+                company_name: text(row, 'company_name') || undefined,
+                ruc: candidate.ruc,
+                billing_address: text(row, 'billing_address') || undefined,
+                tags: text(row, 'tags').split(/[,;]/).map(t => t.trim()).filter(Boolean),
+                birthday,
+                notes: text(row, 'notes') || undefined,
+            });
+            results.push({ rowNumber, label: name, status: 'create', messages: [] });
+            return;
+        }
+
+        const name = text(row, 'name');
+        const clientName = text(row, 'client_name');
+        const date = parseImportDate(cell(row, 'date'));
+        const amount = parseImportNumber(cell(row, 'amount_charged'));
+        const startTime = text(row, 'start_time') ? parseImportTime(cell(row, 'start_time')) : null;
+        const endTime = text(row, 'end_time') ? parseImportTime(cell(row, 'end_time')) : null;
+        const currencyText = text(row, 'currency').toUpperCase();
+        if (!name) messages.push('Falta el nombre del evento');
+        if (!clientName) messages.push('Falta el cliente');
+        if (!date) messages.push(`Fecha inválida: ${text(row, 'date') || '(vacía)'}`);
+        if (amount === null) messages.push(`Monto inválido: ${text(row, 'amount_charged') || '(vacío)'}`);
+        if (text(row, 'start_time') && !startTime) messages.push(`Hora de inicio inválida: ${text(row, 'start_time')}`);
+        if (text(row, 'end_time') && !endTime) messages.push(`Hora de fin inválida: ${text(row, 'end_time')}`);
+        if (currencyText && !CURRENCIES.includes(currencyText as Currency)) messages.push(`Moneda desconocida: ${currencyText}`);
+
+        const expenses: Expense[] = [];
+        text(row, 'expenses').split(/[;|]/).map(part => part.trim()).filter(Boolean).forEach(part => {
+            const [type, rawAmount] = part.split(/[:=]/);
+            const expenseAmount = parseImportNumber(rawAmount);
+            if (!type?.trim() || expenseAmount === null) messages.push(`Gasto inválido: ${part}`);
+            else expenses.push({ id: Math.random().toString(), type: type.trim(), amount: expenseAmount });
+        });
+
+        if (messages.length > 0) {
+            results.push({ rowNumber, label: name || '-', status: 'error', messages });
+            return;
+        }
+        const { client, isNew } = resolveClient({ name: clientName, phone: text(row, 'client_phone'), email: email || undefined });
+        plan.events.push({
+            id: '',
+            user_id: '',
+            client_id: client.id,
+            client: null,
+            name,
+            location: text(row, 'location'),
+            date: date!,
+            start_time: startTime,
+            end_time: endTime,
+            amount_charged: amount!,
+            currency: (currencyText as Currency) || defaultCurrency,
+            expenses,
+            payments: [],
+            observations: text(row, 'observations'),
+        });
+        results.push({ rowNumber, label: name, status: 'create', messages: [isNew ? `Cliente nuevo: ${client.name}` : `Cliente existente: ${client.name}`] });
+    });
+
+    return { plan, results };
+};
+
+const ImportWizardModal: React.FC<{
+    entity: ImportEntity;
+    clients: Client[];
+    defaultCurrency: Currency;
+    onImport: (plan: ImportPlan) => Promise<boolean>;
+    onClose: () => void;
+}> = ({ entity, clients, defaultCurrency, onImport, onClose }) => {
+    const fields = IMPORT_FIELDS[entity];
+    const [step, setStep] = useState<'file' | 'mapping' | 'preview'>('file');
+    const [fileName, setFileName] = useState('');
+    const [headers, setHeaders] = useState<string[]>([]);
+    const [rows, setRows] = useState<unknown[][]>([]);
+    const [mapping, setMapping] = useState<Record<string, number>>({});
+    const [error, setError] = useState('');
+    const [isImporting, setIsImporting] = useState(false);
+
+    const missingRequired = fields.filter(f => f.required && mapping[f.key] === undefined);
+    const { plan, results } = useMemo(
+        () => step === 'preview' ? buildImportPlan(entity, rows, mapping, clients, defaultCurrency) : { plan: { clients: [], events: [] } as ImportPlan, results: [] as ImportRowResult[] },
+        [step, entity, rows, mapping, clients, defaultCurrency]
+    );
+    const counts = {
+        create: results.filter(r => r.status === 'create').length,
+        skip: results.filter(r => r.status === 'skip').length,
+        error: results.filter(r => r.status === 'error').length,
+    };
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        setError('');
+        try {
+            const [headerRow, ...dataRows] = await readSpreadsheetRows(file);
+            if (!headerRow || dataRows.length === 0) {
+                setError('El archivo no tiene filas para importar.');
+                return;
+            }
+            const fileHeaders = headerRow.map(importCellText);
+            setFileName(file.name);
+            setHeaders(fileHeaders);
+            setRows(dataRows);
+            setMapping(guessColumnMapping(fields, fileHeaders));
+            setStep('mapping');
+        } catch (err) {
+            console.error("Error reading import file:", err);
+            setError('No se pudo leer el archivo. Verifica que sea un CSV o Excel válido.');
+        }
+    };
+
+    const handleMappingChange = (key: string, value: string) => {
+        setMapping(prev => {
+            const next = { ...prev };
+            if (value === '') delete next[key];
+            else next[key] = Number(value);
+            return next;
+        });
+    };
+
+    const handleImport = async () => {
+        setIsImporting(true);
+        const imported = await onImport(plan);
+        setIsImporting(false);
+        if (imported) onClose();
+    };
+
+    const statusStyles: Record<ImportRowResult['status'], string> = {
+        create: 'bg-green-100 text-green-800',
+        skip: 'bg-yellow-100 text-yellow-800',
+        error: 'bg-red-100 text-red-800',
+    };
+    const statusLabels: Record<ImportRowResult['status'], string> = { create: 'Crear', skip: 'Omitir', error: 'Error' };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50 p-4">
+            <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] overflow-y-auto">
+                <h2 className="text-2xl font-bold mb-1">Importar {entity === 'clients' ? 'Clientes' : 'Eventos'}</h2>
+                <p className="text-sm text-gray-500 mb-6">
+                    {step === 'file' && 'Paso 1 de 3: selecciona un archivo CSV o Excel. La primera fila debe contener los títulos de las columnas.'}
+                    {step === 'mapping' && `Paso 2 de 3: indica qué columna de "${fileName}" corresponde a cada dato.`}
+                    {step === 'preview' && 'Paso 3 de 3: simulación de la importación. Todavía no se guardó nada.'}
+                </p>
+
+                {step === 'file' && (
+                    <div className="space-y-4">
+                        <input type="file" accept=".csv,.xlsx,.xls" onChange={handleFile} className="block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-primary-50 file:text-primary-700 hover:file:bg-primary-100" />
+                        {entity === 'events' && <p className="text-xs text-gray-500">Los gastos pueden ir en una sola columna con el formato "Sonido: 200000; Transporte: 50000". Los clientes que no existan se crearán automáticamente.</p>}
+                        {error && <p className="text-sm text-red-500">{error}</p>}
+                    </div>
+                )}
+
+                {step === 'mapping' && (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        {fields.map(field => (
+                            <div key={field.key}>
+                                <label className="block text-sm font-medium mb-1">{field.label}{field.required && ' *'}</label>
+                                <select value={mapping[field.key] ?? ''} onChange={e => handleMappingChange(field.key, e.target.value)} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600">
+                                    <option value="">No importar</option>
+                                    {headers.map((header, i) => <option key={i} value={i}>{header || `Columna ${i + 1}`}</option>)}
+                                </select>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                {step === 'preview' && (
+                    <div className="space-y-4">
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-center">
+                            <div className="bg-green-100 dark:bg-green-900/50 p-3 rounded-lg"><p className="text-sm">A crear</p><p className="text-2xl font-bold">{counts.create}</p></div>
+                            <div className="bg-yellow-100 dark:bg-yellow-900/50 p-3 rounded-lg"><p className="text-sm">Duplicados omitidos</p><p className="text-2xl font-bold">{counts.skip}</p></div>
+                            <div className="bg-red-100 dark:bg-red-900/50 p-3 rounded-lg"><p className="text-sm">Filas con errores</p><p className="text-2xl font-bold">{counts.error}</p></div>
+                        </div>
+                        {entity === 'events' && plan.clients.length > 0 && <p className="text-sm text-gray-500">También se crearán {plan.clients.length} clientes nuevos.</p>}
+                        <div className="overflow-x-auto max-h-80 overflow-y-auto">
+                            <table className="w-full text-left text-sm">
+                                <thead><tr className="border-b dark:border-gray-700"><th className="p-2">Fila</th><th className="p-2">Registro</th><th className="p-2">Resultado</th><th className="p-2">Detalle</th></tr></thead>
+                                <tbody>
+                                    {results.map(result => (
+                                        <tr key={result.rowNumber} className="border-b dark:border-gray-700">
+                                            <td className="p-2">{result.rowNumber}</td>
+                                            <td className="p-2">{result.label}</td>
+                                            <td className="p-2"><span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${statusStyles[result.status]}`}>{statusLabels[result.status]}</span></td>
+                                            <td className="p-2 text-gray-600 dark:text-gray-300">{result.messages.join(' · ')}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    </div>
+                )}
+
+                <div className="flex justify-end space-x-4 pt-6">
+                    <button type="button" onClick={onClose} className="px-4 py-2 rounded bg-gray-200 dark:bg-gray-600">Cancelar</button>
+                    {step === 'mapping' && <button type="button" onClick={() => setStep('file')} className="px-4 py-2 rounded bg-gray-200 dark:bg-gray-600">Atrás</button>}
+                    {step === 'preview' && <button type="button" onClick={() => setStep('mapping')} className="px-4 py-2 rounded bg-gray-200 dark:bg-gray-600">Atrás</button>}
+                    {step === 'mapping' && (
+                        <button type="button" onClick={() => setStep('preview')} disabled={missingRequired.length > 0} title={missingRequired.length > 0 ? `Falta asignar: ${missingRequired.map(f => f.label).join(', ')}` : undefined} className="px-4 py-2 rounded bg-primary-600 text-white disabled:bg-primary-400">Simular Importación</button>
+                    )}
+                    {step === 'preview' && (
+                        <button type="button" onClick={handleImport} disabled={isImporting || counts.create === 0} className="px-4 py-2 rounded bg-primary-600 text-white disabled:bg-primary-400">
+                            {isImporting ? 'Importando...' : `Importar ${counts.create} registros`}
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+type ClientTimelineEntry = { id: string; date: string; kind: 'Evento' | 'Presupuesto' | 'Consulta' | 'Actividad'; title: string; detail?: string };
+
+const ClientDetailView: React.FC<{
+    client: Client;
+    events: Event[];
+    budgets: Budget[];
+    inquiries: Inquiry[];
+    exchangeRates: ExchangeRate[];
+    baseCurrency: Currency;
+    saveClient: (client: Client) => Promise<Client | null>;
+    onEdit: () => void;
+    onBack: () => void;
+}> = ({ client, events, budgets, inquiries, exchangeRates, baseCurrency, saveClient, onEdit, onBack }) => {
+    const [activity, setActivity] = useState<ActivityLog[]>([]);
+    const [notes, setNotes] = useState(client.notes || '');
+    const [isSavingNotes, setIsSavingNotes] = useState(false);
+
+    useEffect(() => {
+        fetchClientActivity(client.id).then(setActivity);
+    }, [client.id]);
+
+    useEffect(() => {
+        setNotes(client.notes || '');
+    }, [client.notes]);
+
+    const today = new Date().toISOString().split('T')[0];
+    const clientEvents = events.filter(e => e.client_id === client.id);
+    const clientBudgets = budgets.filter(b => b.client_id === client.id);
+    const clientInquiries = inquiries.filter(i =>
+        i.client_id === client.id ||
+        (!!client.email && i.client_email?.toLowerCase() === client.email.toLowerCase()) ||
+        (!!client.phone && i.client_phone === client.phone)
+    );
+
+    const missingRates = getMissingRateCurrencies(getEventCurrencies(clientEvents), exchangeRates, baseCurrency);
+    const lifetimeValue = clientEvents.filter(isRevenueEvent).reduce((acc, e) => acc + getEventIncome(e, exchangeRates, baseCurrency), 0);
+    const pendingBalance = clientEvents.reduce((acc, e) => acc + convertCurrency(getEventBalance(e), e.currency, baseCurrency, exchangeRates, e.date), 0);
+    const pastEvents = clientEvents.filter(e => getEventDateKey(e) < today).sort((a, b) => b.date.localeCompare(a.date));
+    const nextEvent = clientEvents.filter(e => getEventDateKey(e) >= today).sort((a, b) => a.date.localeCompare(b.date))[0];
+
+    const timeline: ClientTimelineEntry[] = [
+        ...clientEvents.map(e => ({ id: `event-${e.id}`, date: e.date, kind: 'Evento' as const, title: e.name, detail: `${getEventStatus(e)} · ${e.location} · ${formatCurrency(e.amount_charged, e.currency)}` })),
+        ...clientBudgets.map(b => ({ id: `budget-${b.id}`, date: b.created_at, kind: 'Presupuesto' as const, title: b.title, detail: `${b.status} · ${formatCurrency(getBudgetTotal(b), b.currency)}` })),
+        ...clientInquiries.map(i => ({ id: `inquiry-${i.id}`, date: i.created_at, kind: 'Consulta' as const, title: i.event_type || 'Consulta', detail: i.message })),
+        ...activity.map(log => ({ id: `log-${log.id}`, date: log.created_at, kind: 'Actividad' as const, title: ACTIVITY_LABELS[log.action] || log.action.replace(/_/g, ' '), detail: log.details?.eventName || log.details?.title || log.details?.name })),
+    ].sort((a, b) => b.date.localeCompare(a.date));
+
+    const handleSaveNotes = async () => {
+        setIsSavingNotes(true);
+        await saveClient({ ...client, notes });
+        setIsSavingNotes(false);
+    };
+
+    const kindStyles: Record<ClientTimelineEntry['kind'], string> = {
+        Evento: 'bg-primary-100 text-primary-800',
+        Presupuesto: 'bg-green-100 text-green-800',
+        Consulta: 'bg-yellow-100 text-yellow-800',
+        Actividad: 'bg-gray-100 text-gray-800',
+    };
+
+    return (
+        <div className="space-y-6">
+            <MissingRatesWarning missing={missingRates} baseCurrency={baseCurrency} />
+            <div className="bg-white dark:bg-gray-800 p-4 md:p-6 rounded-lg shadow">
+                <div className="flex flex-wrap justify-between items-start gap-4">
+                    <div>
+                        <button onClick={onBack} className="text-sm text-primary-600 hover:underline mb-2">&larr; Volver a Clientes</button>
+                        <h3 className="text-2xl font-semibold">{client.name}</h3>
+                        <p className="text-sm text-gray-500">{client.phone}{client.email && ` · ${client.email}`}</p>
+                        {(client.company_name || client.ruc) && <p className="text-sm text-gray-500">{[client.company_name, client.ruc && `RUC: ${client.ruc}`].filter(Boolean).join(' · ')}</p>}
+                        {client.billing_address && <p className="text-sm text-gray-500">{client.billing_address}</p>}
+                        <div className="flex flex-wrap items-center gap-2 mt-2 text-xs">
+                            {(client.tags || []).map(tag => <span key={tag} className="px-2 py-0.5 rounded-full bg-gray-200 dark:bg-gray-700">{tag}</span>)}
+                            {client.source && <span className="text-gray-500">Origen: {client.source}</span>}
+                            {client.birthday && <span className="text-gray-500">Cumpleaños: {new Date(client.birthday).toLocaleDateString(undefined, { timeZone: 'UTC', day: 'numeric', month: 'long' })}</span>}
+                            {client.anniversary && <span className="text-gray-500">Aniversario: {new Date(client.anniversary).toLocaleDateString(undefined, { timeZone: 'UTC', day: 'numeric', month: 'long' })}</span>}
+                        </div>
+                    </div>
+                    <button onClick={onEdit} className="flex items-center px-4 py-2 rounded-lg bg-gray-200 dark:bg-gray-700"><EditIcon /><span className="ml-2">Editar</span></button>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mt-6 text-center">
+                    <div className="bg-green-100 dark:bg-green-900/50 p-4 rounded-lg"><h4 className="text-sm font-semibold">Valor Total</h4><p className="text-xl font-bold">{formatCurrency(lifetimeValue, baseCurrency)}</p></div>
+                    <div className="bg-gray-100 dark:bg-gray-700 p-4 rounded-lg"><h4 className="text-sm font-semibold">Eventos</h4><p className="text-xl font-bold">{clientEvents.length}</p></div>
+                    <div className="bg-blue-100 dark:bg-blue-900/50 p-4 rounded-lg">
+                        <h4 className="text-sm font-semibold">Último Evento</h4>
+                        <p className="text-xl font-bold">{pastEvents[0] ? new Date(pastEvents[0].date).toLocaleDateString() : '-'}</p>
+                        {nextEvent && <p className="text-xs text-gray-500">Próximo: {new Date(nextEvent.date).toLocaleDateString()}</p>}
+                    </div>
+                    <div className="bg-yellow-100 dark:bg-yellow-900/50 p-4 rounded-lg"><h4 className="text-sm font-semibold">Saldo por Cobrar</h4><p className="text-xl font-bold">{formatCurrency(pendingBalance, baseCurrency)}</p></div>
+                </div>
+            </div>
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                <div className="bg-white dark:bg-gray-800 p-4 md:p-6 rounded-lg shadow">
+                    <h4 className="text-lg font-semibold mb-2">Notas</h4>
+                    <textarea value={notes} onChange={e => setNotes(e.target.value)} rows={8} placeholder="Preferencias, contactos, detalles a recordar..." className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" />
+                    <button onClick={handleSaveNotes} disabled={isSavingNotes || notes === (client.notes || '')} className="mt-2 w-full bg-primary-600 text-white py-2 rounded-lg hover:bg-primary-700 disabled:bg-primary-400">
+                        {isSavingNotes ? 'Guardando...' : 'Guardar Notas'}
+                    </button>
+                </div>
+                <div className="lg:col-span-2 bg-white dark:bg-gray-800 p-4 md:p-6 rounded-lg shadow">
+                    <h4 className="text-lg font-semibold mb-4">Historial</h4>
+                    {timeline.length === 0 ? (
+                        <p className="text-gray-500">Todavía no hay historial para este cliente.</p>
+                    ) : (
+                        <ol className="border-l dark:border-gray-700 space-y-4">
+                            {timeline.map(entry => (
+                                <li key={entry.id} className="ml-4">
+                                    <div className="flex items-center gap-2">
+                                        <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${kindStyles[entry.kind]}`}>{entry.kind}</span>
+                                        <span className="text-xs text-gray-500">{new Date(entry.date).toLocaleDateString()}</span>
+                                    </div>
+                                    <p className="font-semibold">{entry.title}</p>
+                                    {entry.detail && <p className="text-sm text-gray-600 dark:text-gray-300">{entry.detail}</p>}
+                                </li>
+                            ))}
+                        </ol>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const ClientsPage: React.FC<{
+    userId: string;
+    clients: Client[];
+    events: Event[];
+    budgets: Budget[];
+    inquiries: Inquiry[];
+    exchangeRates: ExchangeRate[];
+    baseCurrency: Currency;
+    saveClient: (client: Client) => Promise<Client | null>;
+    deleteClient: (id: string) => Promise<void>;
+    mergeClients: (survivorId: string, duplicateId: string) => Promise<void>;
+    importData: (plan: ImportPlan) => Promise<boolean>;
+    focusedClientId: string | null;
+    onFocusHandled: () => void;
+}> = ({ userId, clients, events, budgets, inquiries, exchangeRates, baseCurrency, saveClient, deleteClient, mergeClients, importData, focusedClientId, onFocusHandled }) => {
+    const [isModalOpen, setIsModalOpen] = useState(false);
+    const [selectedClient, setSelectedClient] = useState<Client | null>(null);
+    const [viewingClientId, setViewingClientId] = useState<string | null>(null);
+    const viewingClient = clients.find(c => c.id === viewingClientId);
+    const [tagFilter, setTagFilter] = useState('');
+    const [sourceFilter, setSourceFilter] = useState('');
+    const [celebrationsThisMonth, setCelebrationsThisMonth] = useState(false);
+    const [isMergeModalOpen, setIsMergeModalOpen] = useState(false);
+    const [isImportOpen, setIsImportOpen] = useState(false);
+
+    // Opens the profile requested from the command palette.
+    useEffect(() => {
+        if (!focusedClientId) return;
+        setViewingClientId(focusedClientId);
+        onFocusHandled();
+    }, [focusedClientId, onFocusHandled]);
+
+    const allTags = useMemo(() => Array.from(new Set(clients.flatMap(c => c.tags || []))).sort(), [clients]);
+
+    const celebrationClientIds = useMemo(() => {
+        const month = String(new Date().getMonth() + 1).padStart(2, '0');
+        const isThisMonth = (date?: string | null) => !!date && date.split('T')[0].slice(5, 7) === month;
+        return clients.filter(c => isThisMonth(c.birthday) || isThisMonth(c.anniversary)).map(c => c.id);
+    }, [clients]);
+
+    // Birthdays can't be matched by month in a range query, so that filter uses the ids of the loaded clients.
+    const applyClientFilters = useCallback((query: DataTableQuery) => {
+        let filtered = query;
+        if (tagFilter) filtered = filtered.contains('tags', [tagFilter]);
+        if (sourceFilter) filtered = filtered.eq('source', sourceFilter);
+        if (celebrationsThisMonth) filtered = filtered.in('id', celebrationClientIds);
+        return filtered;
+    }, [tagFilter, sourceFilter, celebrationsThisMonth, celebrationClientIds]);
+
+    const handleOpenModal = (client: Client | null) => {
+        setSelectedClient(client);
+        setIsModalOpen(true);
+    };
+
+    const handleSave = async (client: Client) => {
+        await saveClient(client);
+        setIsModalOpen(false);
+    };
+
+    const columns: DataTableColumn<Client>[] = [
+        { header: 'Nombre', sortKey: 'name', render: client => <button onClick={() => setViewingClientId(client.id)} className="text-primary-600 hover:underline text-left">{client.name}</button> },
+        {
+            header: 'Empresa',
+            sortKey: 'company_name',
+            render: client => (
+                <>
+                    {client.company_name || '-'}
+                    {client.ruc && <p className="text-xs text-gray-500">RUC: {client.ruc}</p>}
+                </>
+            ),
+        },
+        { header: 'Teléfono', render: client => client.phone },
+        { header: 'Email', sortKey: 'email', render: client => client.email },
+        {
+            header: 'Etiquetas',
+            render: client => (
+                <div className="flex flex-wrap gap-1">
+                    {(client.tags || []).map(tag => <span key={tag} className="px-2 py-0.5 text-xs rounded-full bg-gray-200 dark:bg-gray-700">{tag}</span>)}
+                </div>
+            ),
+        },
+        {
+            header: 'Acciones',
+            render: client => (
+                <div className="flex items-center space-x-2">
+                    <button title="Editar" onClick={() => handleOpenModal(client)} className="p-1.5 rounded text-blue-600 hover:bg-blue-100 dark:hover:bg-blue-900/50">
+                        <EditIcon />
+                    </button>
+                    <button title="Eliminar" onClick={() => deleteClient(client.id)} className="p-1.5 rounded text-red-600 hover:bg-red-100 dark:hover:bg-red-900/50">
+                        <TrashIcon />
+                    </button>
+                </div>
+            ),
+        },
+    ];
+
+    if (viewingClient) {
+        return (
+            <>
+                <ClientDetailView
+                    client={viewingClient}
+                    events={events}
+                    budgets={budgets}
+                    inquiries={inquiries}
+                    exchangeRates={exchangeRates}
+                    baseCurrency={baseCurrency}
+                    saveClient={saveClient}
+                    onEdit={() => handleOpenModal(viewingClient)}
+                    onBack={() => setViewingClientId(null)}
+                />
+                {isModalOpen && <ClientFormModal client={selectedClient} clients={clients} onSave={handleSave} onClose={() => setIsModalOpen(false)} />}
+            </>
+        );
+    }
+
+    return (
+         <div className="bg-white dark:bg-gray-800 p-4 md:p-6 rounded-lg shadow">
+            <div className="flex justify-between items-center mb-4">
+                <h3 className="text-xl font-semibold">Mis Clientes</h3>
+                <div className="flex gap-2">
+                    <button onClick={() => setIsImportOpen(true)} className="px-4 py-2 rounded-lg bg-gray-200 dark:bg-gray-700">Importar</button>
+                    <button onClick={() => setIsMergeModalOpen(true)} className="px-4 py-2 rounded-lg bg-gray-200 dark:bg-gray-700">Duplicados</button>
+                    <button onClick={() => handleOpenModal(null)} className="bg-primary-600 text-white px-4 py-2 rounded-lg hover:bg-primary-700">Añadir Cliente</button>
+                </div>
+            </div>
+            <DataTable<Client>
+                viewKey="clients"
+                userId={userId}
+                source={CLIENTS_TABLE_SOURCE}
+                columns={columns}
+                refreshKey={clients}
+                applyExtraFilters={applyClientFilters}
+                searchPlaceholder="Buscar por nombre, empresa, RUC, teléfono..."
+                emptyMessage="Aún no tienes clientes."
+                extraFilters={<>
+                    <select value={tagFilter} onChange={e => setTagFilter(e.target.value)} className="p-2 border rounded dark:bg-gray-700 dark:border-gray-600">
+                        <option value="">Todas las etiquetas</option>
+                        {allTags.map(tag => <option key={tag}>{tag}</option>)}
+                    </select>
+                    <select value={sourceFilter} onChange={e => setSourceFilter(e.target.value)} className="p-2 border rounded dark:bg-gray-700 dark:border-gray-600">
+                        <option value="">Todos los orígenes</option>
+                        {CLIENT_SOURCES.map(source => <option key={source}>{source}</option>)}
+                    </select>
+                    <label className="flex items-center gap-1 text-sm">
+                        <input type="checkbox" checked={celebrationsThisMonth} onChange={e => setCelebrationsThisMonth(e.target.checked)} />
+                        Cumpleaños/aniversario este mes
+                    </label>
+                </>}
+            />
+            {isModalOpen && <ClientFormModal client={selectedClient} clients={clients} onSave={handleSave} onClose={() => setIsModalOpen(false)} />}
+            {isMergeModalOpen && <MergeClientsModal clients={clients} events={events} budgets={budgets} onMerge={mergeClients} onClose={() => setIsMergeModalOpen(false)} />}
+            {isImportOpen && <ImportWizardModal entity="clients" clients={clients} defaultCurrency={baseCurrency} onImport={importData} onClose={() => setIsImportOpen(false)} />}
+        </div>
+    )
+}
+
+const MergeClientsModal: React.FC<{
+    clients: Client[];
+    events: Event[];
+    budgets: Budget[];
+    onMerge: (survivorId: string, duplicateId: string) => Promise<void>;
+    onClose: () => void;
+}> = ({ clients, events, budgets, onMerge, onClose }) => {
+    const [survivorId, setSurvivorId] = useState('');
+    const [duplicateId, setDuplicateId] = useState('');
+    const [isMerging, setIsMerging] = useState(false);
+
+    const suggestedPairs = useMemo(() => {
+        const pairs: { first: Client; second: Client; reasons: string[] }[] = [];
+        clients.forEach((client, index) => {
+            findDuplicateClients(client, clients.slice(index + 1)).forEach(match => {
+                pairs.push({ first: client, second: match.client, reasons: match.reasons });
+            });
+        });
+        return pairs;
+    }, [clients]);
+
+    const describe = (clientId: string) => {
+        const client = clients.find(c => c.id === clientId);
+        if (!client) return null;
+        const eventCount = events.filter(e => e.client_id === clientId).length;
+        const budgetCount = budgets.filter(b => b.client_id === clientId).length;
+        return (
+            <div className="text-sm text-gray-600 dark:text-gray-300 mt-1">
+                <p>{client.phone}{client.email && ` · ${client.email}`}</p>
+                <p>{eventCount} eventos · {budgetCount} presupuestos</p>
+            </div>
+        );
+    };
+
+    const handleMerge = async () => {
+        const survivor = clients.find(c => c.id === survivorId);
+        const duplicate = clients.find(c => c.id === duplicateId);
+        if (!survivor || !duplicate) return;
+        if (!window.confirm(`Los eventos, presupuestos y consultas de "${duplicate.name}" pasarán a "${survivor.name}" y "${duplicate.name}" se moverá a la Papelera. ¿Continuar?`)) return;
+        setIsMerging(true);
+        await onMerge(survivorId, duplicateId);
+        setIsMerging(false);
+        setSurvivorId('');
+        setDuplicateId('');
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50 p-4">
+            <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+                <h2 className="text-2xl font-bold mb-4">Fusionar Clientes Duplicados</h2>
+                <h3 className="font-semibold mb-2">Posibles duplicados</h3>
+                {suggestedPairs.length === 0 ? (
+                    <p className="text-sm text-gray-500 mb-4">No se detectaron clientes duplicados.</p>
+                ) : (
+                    <div className="space-y-2 mb-4 max-h-48 overflow-y-auto">
+                        {suggestedPairs.map(pair => (
+                            <div key={`${pair.first.id}-${pair.second.id}`} className="flex justify-between items-center p-2 rounded bg-gray-50 dark:bg-gray-700 text-sm">
+                                <span>{pair.first.name} / {pair.second.name} <span className="text-gray-500">({pair.reasons.join(', ')})</span></span>
+                                <button type="button" onClick={() => { setSurvivorId(pair.first.id); setDuplicateId(pair.second.id); }} className="text-primary-600 hover:underline">Seleccionar</button>
+                            </div>
+                        ))}
+                    </div>
+                )}
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 border-t dark:border-gray-700 pt-4">
+                    <div>
+                        <label className="block text-sm font-medium mb-1">Cliente a conservar</label>
+                        <select value={survivorId} onChange={e => setSurvivorId(e.target.value)} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600">
+                            <option value="">Seleccionar...</option>
+                            {clients.filter(c => c.id !== duplicateId).map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                        </select>
+                        {describe(survivorId)}
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium mb-1">Cliente a fusionar (irá a la Papelera)</label>
+                        <select value={duplicateId} onChange={e => setDuplicateId(e.target.value)} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600">
+                            <option value="">Seleccionar...</option>
+                            {clients.filter(c => c.id !== survivorId).map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                        </select>
+                        {describe(duplicateId)}
+                    </div>
+                </div>
+                <p className="text-xs text-gray-500 mt-2">Los datos vacíos del cliente conservado se completan con los del duplicado; las etiquetas y notas se combinan.</p>
+                <div className="flex justify-end space-x-4 pt-4">
+                    <button type="button" onClick={() => { setSurvivorId(duplicateId); setDuplicateId(survivorId); }} disabled={!survivorId || !duplicateId} className="px-4 py-2 rounded bg-gray-200 dark:bg-gray-600 disabled:opacity-50">Intercambiar</button>
+                    <button type="button" onClick={onClose} className="px-4 py-2 rounded bg-gray-200 dark:bg-gray-600">Cerrar</button>
+                    <button type="button" onClick={handleMerge} disabled={isMerging || !survivorId || !duplicateId} className="px-4 py-2 rounded bg-primary-600 text-white disabled:bg-primary-400">{isMerging ? 'Fusionando...' : 'Fusionar'}</button>
+                </div>
             </div>
         </div>
     );
 };
 
-const ClientsPage: React.FC<{ clients: Client[], saveClient: (client: Client) => Promise<Client | null>, deleteClient: (id: string) => Promise<void>}> = ({ clients, saveClient, deleteClient }) => {
-    const [isModalOpen, setIsModalOpen] = useState(false);
-    const [selectedClient, setSelectedClient] = useState<Client | null>(null);
+const ClientFormModal: React.FC<{client: Client | null, clients: Client[], onSave: (client: Client) => void, onClose: () => void}> = ({ client, clients, onSave, onClose }) => {
+    const isNew = !client?.id;
+    const [formData, setFormData] = useState<Client>(client
+        ? { ...client, birthday: client.birthday?.split('T')[0], anniversary: client.anniversary?.split('T')[0] }
+        : { id: '', user_id: '', name: '', phone: '', email: '', tags: [] });
+    const [tagInput, setTagInput] = useState('');
+    const duplicates = useMemo(
+        () => isNew ? findDuplicateClients(formData, clients) : [],
+        [isNew, formData.name, formData.email, formData.phone, formData.ruc, clients]
+    );
 
-    const handleOpenModal = (client: Client | null) => {
-        setSelectedClient(client);
-        setIsModalOpen(true);
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
+        setFormData(prev => ({ ...prev, [e.target.name]: e.target.value }));
     };
 
-    const handleSave = async (client: Client) => {
-        await saveClient(client);
-        setIsModalOpen(false);
+    const toggleTag = (tag: string) => {
+        const normalized = tag.trim();
+        if (!normalized) return;
+        setFormData(prev => {
+            const tags = prev.tags || [];
+            return { ...prev, tags: tags.includes(normalized) ? tags.filter(t => t !== normalized) : [...tags, normalized] };
+        });
     };
-    return (
-         <div className="bg-white dark:bg-gray-800 p-4 md:p-6 rounded-lg shadow">
-            <div className="flex justify-between items-center mb-4">
-                <h3 className="text-xl font-semibold">Mis Clientes</h3>
-                <button onClick={() => handleOpenModal(null)} className="bg-primary-600 text-white px-4 py-2 rounded-lg hover:bg-primary-700">Añadir Cliente</button>
-            </div>
-            <div className="overflow-x-auto">
-                 <table className="w-full text-left">
-                    <thead>
-                        <tr className="border-b dark:border-gray-700">
-                            <th className="p-2">Nombre</th><th className="p-2">Teléfono</th><th className="p-2">Email</th><th className="p-2">Acciones</th>
-                        </tr>
-                    </thead>
-                    <tbody>
-                        {clients.map(client => (
-                            <tr key={client.id} className="border-b dark:border-gray-700">
-                                <td className="p-2">{client.name}</td>
-                                <td className="p-2">{client.phone}</td>
-                                <td className="p-2">{client.email}</td>
-                                <td className="p-2">
-                                    <div className="flex items-center space-x-2">
-                                        <button title="Editar" onClick={() => handleOpenModal(client)} className="p-1.5 rounded text-blue-600 hover:bg-blue-100 dark:hover:bg-blue-900/50">
-                                            <EditIcon />
-                                        </button>
-                                        <button title="Eliminar" onClick={() => deleteClient(client.id)} className="p-1.5 rounded text-red-600 hover:bg-red-100 dark:hover:bg-red-900/50">
-                                            <TrashIcon />
-                                        </button>
-                                    </div>
-                                </td>
-                            </tr>
-                        ))}
-                    </tbody>
-                </table>
-            </div>
-            {isModalOpen && <ClientFormModal client={selectedClient} onSave={handleSave} onClose={() => setIsModalOpen(false)} />}
-        </div>
-    )
-}
 
-const ClientFormModal: React.FC<{client: Client | null, onSave: (client: Client) => void, onClose: () => void}> = ({ client, onSave, onClose }) => {
-    const isNew = !client?.id;
-    const [formData, setFormData] = useState<Client>(client || { id: '', user_id: '', name: '', phone: '', email: '' });
-    
-    const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-        setFormData(prev => ({ ...prev, [e.target.name]: e.target.value }));
+    const handleTagKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Enter' || e.key === ',') {
+            e.preventDefault();
+            if (!formData.tags?.includes(tagInput.trim())) toggleTag(tagInput);
+            setTagInput('');
+        }
     };
 
     const handleSubmit = (e: React.FormEvent) => {
@@ -1316,12 +4212,60 @@ const ClientFormModal: React.FC<{client: Client | null, onSave: (client: Client)
 
     return (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50 p-4">
-            <div className="bg-white dark:bg-gray-800 p-8 rounded-lg shadow-xl w-full max-w-lg">
+            <div className="bg-white dark:bg-gray-800 p-8 rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
                 <h2 className="text-2xl font-bold mb-6">{isNew ? 'Crear Nuevo' : 'Editar'} Cliente</h2>
                 <form onSubmit={handleSubmit} className="space-y-4">
                     <input type="text" name="name" value={formData.name} onChange={handleChange} placeholder="Nombre Completo" className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" required />
-                    <input type="tel" name="phone" value={formData.phone} onChange={handleChange} placeholder="Teléfono" className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" required />
-                    <input type="email" name="email" value={formData.email || ''} onChange={handleChange} placeholder="Email (Opcional)" className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" />
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <input type="tel" name="phone" value={formData.phone} onChange={handleChange} placeholder="Teléfono" className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" required />
+                        <input type="email" name="email" value={formData.email || ''} onChange={handleChange} placeholder="Email (Opcional)" className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" />
+                    </div>
+                    {duplicates.length > 0 && (
+                        <div className="p-3 rounded bg-yellow-50 dark:bg-yellow-900/30 text-sm text-yellow-800 dark:text-yellow-300">
+                            <p className="font-semibold mb-1">Posible cliente duplicado:</p>
+                            {duplicates.slice(0, 3).map(({ client: existing, reasons }) => (
+                                <p key={existing.id}>{existing.name} ({existing.phone}{existing.email && `, ${existing.email}`}) - {reasons.join(', ')}</p>
+                            ))}
+                        </div>
+                    )}
+                    <div className="border-t dark:border-gray-700 pt-4 space-y-4">
+                        <h3 className="font-semibold">Datos de Facturación</h3>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <input type="text" name="company_name" value={formData.company_name || ''} onChange={handleChange} placeholder="Empresa / Razón Social" className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" />
+                            <input type="text" name="ruc" value={formData.ruc || ''} onChange={handleChange} placeholder="RUC" className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" />
+                        </div>
+                        <input type="text" name="billing_address" value={formData.billing_address || ''} onChange={handleChange} placeholder="Dirección de Facturación" className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" />
+                    </div>
+                    <div className="border-t dark:border-gray-700 pt-4 space-y-4">
+                        <h3 className="font-semibold">Marketing</h3>
+                        <div>
+                            <label className="block text-sm font-medium mb-1">Etiquetas</label>
+                            <div className="flex flex-wrap gap-2 mb-2">
+                                {Array.from(new Set([...CLIENT_TAG_SUGGESTIONS, ...(formData.tags || [])])).map(tag => (
+                                    <button key={tag} type="button" onClick={() => toggleTag(tag)} className={`px-2 py-1 text-xs rounded-full ${formData.tags?.includes(tag) ? 'bg-primary-600 text-white' : 'bg-gray-200 dark:bg-gray-700'}`}>{tag}</button>
+                                ))}
+                            </div>
+                            <input type="text" value={tagInput} onChange={e => setTagInput(e.target.value)} onKeyDown={handleTagKeyDown} placeholder="Nueva etiqueta y Enter" className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium mb-1">¿Cómo nos conoció?</label>
+                            <select name="source" value={formData.source || ''} onChange={handleChange} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600">
+                                <option value="">Sin especificar</option>
+                                {CLIENT_SOURCES.map(source => <option key={source}>{source}</option>)}
+                            </select>
+                        </div>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <div>
+                                <label className="block text-sm font-medium mb-1">Cumpleaños</label>
+                                <input type="date" name="birthday" value={formData.birthday || ''} onChange={handleChange} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium mb-1">Aniversario</label>
+                                <input type="date" name="anniversary" value={formData.anniversary || ''} onChange={handleChange} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" />
+                            </div>
+                        </div>
+                    </div>
+                    <textarea name="notes" value={formData.notes || ''} onChange={handleChange} placeholder="Notas..." rows={3} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" />
                     <div className="flex justify-end space-x-4 pt-4">
                         <button type="button" onClick={onClose} className="px-4 py-2 rounded bg-gray-200 dark:bg-gray-600">Cancelar</button>
                         <button type="submit" className="px-4 py-2 rounded bg-primary-600 text-white">Guardar Cliente</button>
@@ -1332,7 +4276,12 @@ const ClientFormModal: React.FC<{client: Client | null, onSave: (client: Client)
     );
 };
 
-const ReportsPage: React.FC<{ events: Event[], currentUser: User }> = ({ events, currentUser }) => {
+const ReportsPage: React.FC<{ events: Event[], clients: Client[], budgets: Budget[], staffMembers: StaffMember[], expenseCategories: ExpenseCategory[], businessExpenses: BusinessExpense[], currentUser: User, exchangeRates: ExchangeRate[] }> = ({ events: allEvents, clients, budgets, staffMembers, expenseCategories, businessExpenses, currentUser, exchangeRates }) => {
+    // Tentative holds and cancelled gigs stay out of every total; cancellations are summarized separately.
+    const events = useMemo(() => allEvents.filter(isRevenueEvent), [allEvents]);
+    const baseCurrency = currentUser.default_currency || 'PYG';
+    const money = (amount: number) => formatCurrency(amount, baseCurrency);
+    const missingRates = useMemo(() => getMissingRateCurrencies([...getEventCurrencies(allEvents), ...businessExpenses.map(e => e.currency)], exchangeRates, baseCurrency), [allEvents, businessExpenses, exchangeRates, baseCurrency]);
     const [startDate, setStartDate] = useState<string>('');
     const [endDate, setEndDate] = useState<string>('');
 
@@ -1347,16 +4296,226 @@ const ReportsPage: React.FC<{ events: Event[], currentUser: User }> = ({ events,
         });
     }, [events, startDate, endDate]);
 
+    const cancelledEvents = useMemo(() => allEvents.filter(e =>
+        getEventStatus(e) === 'Cancelado' && (!startDate || !endDate || (getEventDateKey(e) >= startDate && getEventDateKey(e) <= endDate))
+    ), [allEvents, startDate, endDate]);
+    const retainedFromCancellations = cancelledEvents.reduce((acc, e) => acc + convertCurrency(getEventRetainedAmount(e), e.currency, baseCurrency, exchangeRates, e.date), 0);
+
+    const filteredBudgets = useMemo(() => {
+        if (!startDate || !endDate) return budgets;
+        const start = new Date(startDate);
+        const end = new Date(endDate);
+        end.setHours(23, 59, 59, 999);
+        return budgets.filter(budget => {
+            const createdAt = new Date(budget.created_at);
+            return createdAt >= start && createdAt <= end;
+        });
+    }, [budgets, startDate, endDate]);
+
     const { totalIncome, totalExpenses, totalEvents, profit } = useMemo(() => {
-        const income = filteredEvents.reduce((acc, e) => acc + e.amount_charged, 0);
-        const expenses = filteredEvents.reduce((acc, e) => acc + e.expenses.reduce((subAcc, exp) => subAcc + exp.amount, 0), 0);
+        const income = filteredEvents.reduce((acc, e) => acc + getEventIncome(e, exchangeRates, baseCurrency), 0);
+        const expenses = filteredEvents.reduce((acc, e) => acc + getEventExpensesTotal(e, exchangeRates, baseCurrency), 0);
         return {
             totalIncome: income,
             totalExpenses: expenses,
             totalEvents: filteredEvents.length,
             profit: income - expenses
         };
-    }, [filteredEvents]);
+    }, [filteredEvents, exchangeRates, baseCurrency]);
+
+    const staffPayouts = useMemo(() => {
+        return staffMembers.map(member => {
+            const assignments = filteredEvents.flatMap(e => (e.staff || []).filter(a => a.staff_id === member.id).map(a => ({ event: e, assignment: a })));
+            const total = assignments.reduce((acc, { event, assignment }) => acc + convertCurrency(assignment.fee, event.currency, baseCurrency, exchangeRates, event.date), 0);
+            const paid = assignments.filter(({ assignment }) => assignment.paid).reduce((acc, { event, assignment }) => acc + convertCurrency(assignment.fee, event.currency, baseCurrency, exchangeRates, event.date), 0);
+            return { member, eventCount: assignments.length, total, paid, pending: total - paid };
+        }).filter(payout => payout.eventCount > 0);
+    }, [staffMembers, filteredEvents, exchangeRates, baseCurrency]);
+
+    const { categoryBreakdown, categoryMonthlyData } = useMemo(() => {
+        const totals = new Map<string, { name: string; color: string; total: number; eventIds: Set<string> }>();
+        const months = new Map<string, Record<string, number | string>>();
+        filteredEvents.forEach(e => {
+            const monthKey = getEventDateKey(e).slice(0, 7);
+            if (!months.has(monthKey)) months.set(monthKey, { name: monthKey });
+            const month = months.get(monthKey)!;
+            e.expenses.forEach(expense => {
+                const name = getExpenseCategoryName(expense, expenseCategories);
+                const amount = convertCurrency(expense.amount, expense.currency || e.currency, baseCurrency, exchangeRates, e.date);
+                if (!totals.has(name)) totals.set(name, { name, color: expenseCategories.find(c => c.name === name)?.color || '#9ca3af', total: 0, eventIds: new Set() });
+                const entry = totals.get(name)!;
+                entry.total += amount;
+                entry.eventIds.add(e.id);
+                month[name] = ((month[name] as number) || 0) + amount;
+            });
+        });
+        return {
+            categoryBreakdown: Array.from(totals.values())
+                .map(({ eventIds, ...entry }) => ({ ...entry, eventCount: eventIds.size }))
+                .sort((a, b) => b.total - a.total),
+            categoryMonthlyData: Array.from(months.entries())
+                .sort(([a], [b]) => a.localeCompare(b))
+                .map(([key, values]) => ({ ...values, name: new Date(`${key}-01T00:00:00`).toLocaleDateString('es-ES', { month: 'short', year: '2-digit' }) })),
+        };
+    }, [filteredEvents, expenseCategories, exchangeRates, baseCurrency]);
+
+    // Selected range (or the current month) against the previous period of equal length and the same dates a year earlier.
+    const comparison = useMemo(() => {
+        const today = toDateKey(new Date());
+        const currentMonth = today.slice(0, 7);
+        const hasRange = !!(startDate && endDate);
+        const from = hasRange ? startDate : `${currentMonth}-01`;
+        const to = hasRange ? endDate : `${currentMonth}-31`;
+        const lengthInDays = Math.round((new Date(`${to.slice(0, 10)}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / 86400000);
+        const previousFrom = hasRange ? addDaysToDateKey(from, -(lengthInDays + 1)) : `${addMonthsToMonthKey(currentMonth, -1)}-01`;
+        const previousTo = hasRange ? addDaysToDateKey(from, -1) : `${addMonthsToMonthKey(currentMonth, -1)}-31`;
+        return {
+            currentLabel: hasRange ? 'Periodo seleccionado' : 'Este mes',
+            previousLabel: hasRange ? 'Periodo anterior' : 'Mes anterior',
+            current: summarizeEvents(getEventsBetween(events, from, to), exchangeRates, baseCurrency),
+            previous: summarizeEvents(getEventsBetween(events, previousFrom, previousTo), exchangeRates, baseCurrency),
+            lastYear: summarizeEvents(getEventsBetween(events, shiftDateKeyByYears(from, -1), shiftDateKeyByYears(to, -1)), exchangeRates, baseCurrency),
+        };
+    }, [events, startDate, endDate, exchangeRates, baseCurrency]);
+
+    const weekdayData = useMemo(() => WEEKDAY_LABELS.map((label, day) => {
+        const dayEvents = filteredEvents.filter(e => new Date(`${getEventDateKey(e)}T00:00:00`).getDay() === day);
+        return { name: label, Eventos: dayEvents.length };
+    }), [filteredEvents]);
+
+    // Seasonality always uses the full history so years can be compared month by month.
+    const [seasonalityMetric, setSeasonalityMetric] = useState<'Eventos' | 'Ingresos'>('Eventos');
+    const { seasonalityData, seasonalityYears } = useMemo(() => {
+        const years = Array.from(new Set(events.map(e => getEventDateKey(e).slice(0, 4)))).sort().slice(-COMPARISON_COLORS.length);
+        return {
+            seasonalityYears: years,
+            seasonalityData: MONTH_LABELS.map((label, index) => {
+                const row: Record<string, number | string> = { name: label };
+                years.forEach(year => {
+                    const monthEvents = events.filter(e => getEventDateKey(e).startsWith(`${year}-${String(index + 1).padStart(2, '0')}`));
+                    row[year] = seasonalityMetric === 'Eventos'
+                        ? monthEvents.length
+                        : monthEvents.reduce((acc, e) => acc + getEventIncome(e, exchangeRates, baseCurrency), 0);
+                });
+                return row;
+            }),
+        };
+    }, [events, seasonalityMetric, exchangeRates, baseCurrency]);
+
+    // Monthly P&L over the selected period, or the last 12 months. Overhead is counted for whole months.
+    const profitAndLoss = useMemo(() => {
+        const currentMonth = toDateKey(new Date()).slice(0, 7);
+        const firstMonth = startDate && endDate ? startDate.slice(0, 7) : addMonthsToMonthKey(currentMonth, -11);
+        const lastMonth = startDate && endDate ? endDate.slice(0, 7) : currentMonth;
+        const rows: { month: string; income: number; eventExpenses: number; grossProfit: number; overhead: number; netProfit: number }[] = [];
+        for (let month = firstMonth; month <= lastMonth; month = addMonthsToMonthKey(month, 1)) {
+            const monthEvents = filteredEvents.filter(e => getEventDateKey(e).slice(0, 7) === month);
+            const income = monthEvents.reduce((acc, e) => acc + getEventIncome(e, exchangeRates, baseCurrency), 0);
+            const eventExpenses = monthEvents.reduce((acc, e) => acc + getEventExpensesTotal(e, exchangeRates, baseCurrency), 0);
+            const overhead = getOverheadForMonth(businessExpenses, month, exchangeRates, baseCurrency);
+            rows.push({ month, income, eventExpenses, grossProfit: income - eventExpenses, overhead, netProfit: income - eventExpenses - overhead });
+        }
+        const totals = rows.reduce((acc, row) => ({
+            income: acc.income + row.income,
+            eventExpenses: acc.eventExpenses + row.eventExpenses,
+            grossProfit: acc.grossProfit + row.grossProfit,
+            overhead: acc.overhead + row.overhead,
+            netProfit: acc.netProfit + row.netProfit,
+        }), { income: 0, eventExpenses: 0, grossProfit: 0, overhead: 0, netProfit: 0 });
+        return { rows, totals };
+    }, [filteredEvents, businessExpenses, exchangeRates, baseCurrency, startDate, endDate]);
+
+    const generateProfitAndLossPDF = async () => {
+        const doc = new jsPDF();
+        const pageMargin = 15;
+        const logoDataUrl = currentUser.companyLogoUrl ? await getBase64ImageFromUrl(currentUser.companyLogoUrl) : null;
+
+        if (logoDataUrl) doc.addImage(logoDataUrl, 'PNG', pageMargin, 15, 20, 20);
+        doc.setFontSize(18);
+        doc.text(currentUser.company_name, logoDataUrl ? pageMargin + 25 : pageMargin, 22);
+        doc.setFontSize(12);
+        doc.text('Estado de Resultados', logoDataUrl ? pageMargin + 25 : pageMargin, 28);
+        doc.setFontSize(10);
+        doc.text(`Periodo: ${formatMonthKey(profitAndLoss.rows[0].month)} - ${formatMonthKey(profitAndLoss.rows[profitAndLoss.rows.length - 1].month)} · Moneda: ${baseCurrency}`, pageMargin, 40);
+        addMissingRatesNote(doc, pageMargin);
+
+        const { totals } = profitAndLoss;
+        autoTable(doc, {
+            startY: 50,
+            head: [['Mes', 'Ingresos', 'Gastos de Eventos', 'Margen Bruto', 'Gastos Generales', 'Ganancia Neta']],
+            body: profitAndLoss.rows.map(row => [formatMonthKey(row.month), money(row.income), money(row.eventExpenses), money(row.grossProfit), money(row.overhead), money(row.netProfit)]),
+            foot: [['Total', money(totals.income), money(totals.eventExpenses), money(totals.grossProfit), money(totals.overhead), money(totals.netProfit)]],
+            theme: 'grid',
+            headStyles: { fillColor: '#1d4ed8' },
+            footStyles: { fillColor: '#e5e7eb', textColor: '#111827', fontStyle: 'bold' },
+            didDrawPage: (data) => {
+                doc.setFontSize(8);
+                doc.setTextColor(150);
+                doc.text(`Generado por GestionSystem`, pageMargin, doc.internal.pageSize.height - 10);
+                doc.text(`Página ${data.pageNumber}`, doc.internal.pageSize.width - pageMargin, doc.internal.pageSize.height - 10, { align: 'right' });
+            }
+        });
+
+        doc.save(`Estado_de_Resultados_${new Date().toISOString().split('T')[0]}.pdf`);
+    };
+
+    const addMissingRatesNote = (doc: jsPDF, pageMargin: number) => {
+        if (missingRates.length === 0) return;
+        doc.setFontSize(8);
+        doc.setTextColor(180, 83, 9);
+        doc.text(doc.splitTextToSize(getMissingRatesNote(missingRates, baseCurrency), doc.internal.pageSize.width - pageMargin * 2), pageMargin, 45);
+        doc.setTextColor(0);
+        doc.setFontSize(10);
+    };
+
+    // Spreadsheets carry the same warning as a trailing row, after the data so pivots are unaffected.
+    const withMissingRatesNote = (rows: (string | number)[][]) =>
+        missingRates.length > 0 ? [...rows, [], [getMissingRatesNote(missingRates, baseCurrency)]] : rows;
+
+    const exportFilename = (name: string) => `${name}_${startDate && endDate ? `${startDate}_${endDate}` : new Date().toISOString().split('T')[0]}`;
+
+    // One row per event followed by one row per expense line, so the file can be pivoted by either.
+    const exportEvents = (format: SpreadsheetFormat) => {
+        const rows: (string | number)[][] = [['Tipo', 'Evento', 'Fecha', 'Cliente', 'Lugar', 'Moneda', 'Monto Cobrado', `Ingreso (${baseCurrency})`, `Gastos (${baseCurrency})`, `Ganancia (${baseCurrency})`, 'Categoría de Gasto', 'Concepto de Gasto', 'Monto de Gasto', 'Moneda de Gasto']];
+        filteredEvents.forEach(e => {
+            const currency = e.currency || 'PYG';
+            const eventIncome = getEventIncome(e, exchangeRates, baseCurrency);
+            const eventExpenses = getEventExpensesTotal(e, exchangeRates, baseCurrency);
+            const common = [e.name, getEventDateKey(e), e.client?.name || 'N/A', e.location, currency];
+            rows.push(['Evento', ...common, e.amount_charged, eventIncome, eventExpenses, eventIncome - eventExpenses, '', '', '', '']);
+            e.expenses.forEach(expense => rows.push(['Gasto', ...common, '', '', '', '', getExpenseCategoryName(expense, expenseCategories), expense.type, expense.amount, expense.currency || currency]));
+        });
+        downloadSpreadsheet(withMissingRatesNote(rows), 'Eventos', exportFilename('Eventos'), format);
+    };
+
+    // Clients with events in the selected period, or every client when no period is set.
+    const exportClients = (format: SpreadsheetFormat) => {
+        const rows: (string | number)[][] = [['Nombre', 'Teléfono', 'Email', 'Empresa', 'RUC', 'Dirección', 'Etiquetas', 'Eventos', `Ingresos (${baseCurrency})`]];
+        clients.forEach(client => {
+            const clientEvents = filteredEvents.filter(e => e.client_id === client.id);
+            if (startDate && endDate && clientEvents.length === 0) return;
+            const income = clientEvents.reduce((acc, e) => acc + getEventIncome(e, exchangeRates, baseCurrency), 0);
+            rows.push([client.name, client.phone, client.email || '', client.company_name || '', client.ruc || '', client.billing_address || '', (client.tags || []).join(', '), clientEvents.length, income]);
+        });
+        downloadSpreadsheet(withMissingRatesNote(rows), 'Clientes', exportFilename('Clientes'), format);
+    };
+
+    const exportBudgets = (format: SpreadsheetFormat) => {
+        const rows: (string | number)[][] = [['Número', 'Título', 'Cliente', 'Estado', 'Fecha', 'Válido Hasta', 'Moneda', 'Subtotal', 'Descuento', 'Total']];
+        filteredBudgets.forEach(budget => rows.push([
+            formatBudgetNumber(budget, currentUser),
+            budget.title,
+            budget.client?.name || clients.find(c => c.id === budget.client_id)?.name || 'N/A',
+            budget.status,
+            budget.created_at.split('T')[0],
+            budget.valid_until || '',
+            budget.currency || 'PYG',
+            getBudgetSubtotal(budget),
+            budget.discount,
+            getBudgetTotal(budget),
+        ]));
+        downloadSpreadsheet(rows, 'Presupuestos', exportFilename('Presupuestos'), format);
+    };
 
     const generatePDF = async () => {
         const doc = new jsPDF();
@@ -1374,20 +4533,23 @@ const ReportsPage: React.FC<{ events: Event[], currentUser: User }> = ({ events,
             : 'Periodo: Todos los eventos';
         doc.setFontSize(10);
         doc.text(dateRangeText, pageMargin, 40);
+        addMissingRatesNote(doc, pageMargin);
 
         autoTable(doc, {
             startY: 50,
             head: [['Evento', 'Cliente', 'Fecha', 'Ingreso', 'Gastos', 'Ganancia']],
             body: filteredEvents.map(e => {
-                const eventExpenses = e.expenses.reduce((acc, exp) => acc + exp.amount, 0);
-                const eventProfit = e.amount_charged - eventExpenses;
+                const eventIncome = getEventIncome(e, exchangeRates, baseCurrency);
+                const eventExpenses = getEventExpensesTotal(e, exchangeRates, baseCurrency);
+                const eventProfit = eventIncome - eventExpenses;
+                const originalAmount = (e.currency || 'PYG') !== baseCurrency ? `\n(${formatCurrency(e.amount_charged, e.currency)})` : '';
                 return [
                     e.name,
                     e.client?.name || 'N/A',
                     new Date(e.date).toLocaleDateString(),
-                    formatGuarani(e.amount_charged),
-                    formatGuarani(eventExpenses),
-                    formatGuarani(eventProfit)
+                    money(eventIncome) + originalAmount,
+                    money(eventExpenses),
+                    money(eventProfit)
                 ]
             }),
             theme: 'grid',
@@ -1408,13 +4570,46 @@ const ReportsPage: React.FC<{ events: Event[], currentUser: User }> = ({ events,
             startY: finalY + 5,
             body: [
                 ['Eventos Totales', totalEvents.toString()],
-                ['Ingresos Totales', formatGuarani(totalIncome)],
-                ['Gastos Totales', formatGuarani(totalExpenses)],
-                ['Ganancia Neta', formatGuarani(profit)]
+                ['Ingresos Totales', money(totalIncome)],
+                ['Gastos Totales', money(totalExpenses)],
+                ['Ganancia Bruta', money(profit)],
+                ['Moneda Base', baseCurrency]
             ],
             theme: 'striped',
             styles: { fontStyle: 'bold' }
         });
+
+        if (categoryBreakdown.length > 0) {
+            const categoriesY = (doc as any).lastAutoTable.finalY + 10;
+            doc.setFontSize(12);
+            doc.text('Gastos por Categoría', pageMargin, categoriesY);
+            autoTable(doc, {
+                startY: categoriesY + 5,
+                head: [['Categoría', 'Eventos', 'Total', '% de Gastos', '% de Ingresos']],
+                body: categoryBreakdown.map(c => [
+                    c.name,
+                    c.eventCount.toString(),
+                    money(c.total),
+                    `${totalExpenses > 0 ? ((c.total / totalExpenses) * 100).toFixed(1) : '0.0'}%`,
+                    `${totalIncome > 0 ? ((c.total / totalIncome) * 100).toFixed(1) : '0.0'}%`,
+                ]),
+                theme: 'grid',
+                headStyles: { fillColor: '#1d4ed8' },
+            });
+        }
+
+        if (staffPayouts.length > 0) {
+            const payoutsY = (doc as any).lastAutoTable.finalY + 10;
+            doc.setFontSize(12);
+            doc.text('Pagos al Personal', pageMargin, payoutsY);
+            autoTable(doc, {
+                startY: payoutsY + 5,
+                head: [['Personal', 'Rol', 'Eventos', 'Total', 'Pagado', 'Pendiente']],
+                body: staffPayouts.map(p => [p.member.name, p.member.role, p.eventCount.toString(), money(p.total), money(p.paid), money(p.pending)]),
+                theme: 'grid',
+                headStyles: { fillColor: '#1d4ed8' },
+            });
+        }
         
         doc.save(`Reporte_GestionSystem_${new Date().toISOString().split('T')[0]}.pdf`);
     };
@@ -1430,32 +4625,198 @@ const ReportsPage: React.FC<{ events: Event[], currentUser: User }> = ({ events,
                     <button onClick={generatePDF} className="bg-primary-600 text-white px-4 py-2 rounded-lg hover:bg-primary-700">Exportar PDF</button>
                 </div>
             </div>
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 text-center">
+            <MissingRatesWarning missing={missingRates} baseCurrency={baseCurrency} />
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+                {([['Eventos', exportEvents], ['Clientes', exportClients], ['Presupuestos', exportBudgets]] as const).map(([label, exportFn]) => (
+                    <div key={label} className="flex items-center gap-1 bg-gray-100 dark:bg-gray-700 rounded-lg px-3 py-1">
+                        <span className="font-semibold mr-1">{label}:</span>
+                        <button onClick={() => exportFn('csv')} className="px-2 py-1 rounded hover:bg-gray-200 dark:hover:bg-gray-600">CSV</button>
+                        <button onClick={() => exportFn('xlsx')} className="px-2 py-1 rounded hover:bg-gray-200 dark:hover:bg-gray-600">Excel</button>
+                    </div>
+                ))}
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4 text-center">
                 <div className="bg-gray-100 dark:bg-gray-700 p-4 rounded-lg"><h4 className="text-sm font-semibold">Eventos Totales</h4><p className="text-2xl font-bold">{totalEvents}</p></div>
-                <div className="bg-green-100 dark:bg-green-900/50 p-4 rounded-lg"><h4 className="text-sm font-semibold">Ingresos Totales</h4><p className="text-2xl font-bold">{formatGuarani(totalIncome)}</p></div>
-                <div className="bg-red-100 dark:bg-red-900/50 p-4 rounded-lg"><h4 className="text-sm font-semibold">Gastos Totales</h4><p className="text-2xl font-bold">{formatGuarani(totalExpenses)}</p></div>
-                <div className="bg-blue-100 dark:bg-blue-900/50 p-4 rounded-lg"><h4 className="text-sm font-semibold">Ganancia Neta</h4><p className="text-2xl font-bold">{formatGuarani(profit)}</p></div>
+                <div className="bg-green-100 dark:bg-green-900/50 p-4 rounded-lg"><h4 className="text-sm font-semibold">Ingresos Totales</h4><p className="text-2xl font-bold">{money(totalIncome)}</p></div>
+                <div className="bg-red-100 dark:bg-red-900/50 p-4 rounded-lg"><h4 className="text-sm font-semibold">Gastos Totales</h4><p className="text-2xl font-bold">{money(totalExpenses)}</p></div>
+                <div className="bg-blue-100 dark:bg-blue-900/50 p-4 rounded-lg"><h4 className="text-sm font-semibold">Ganancia Bruta</h4><p className="text-2xl font-bold">{money(profit)}</p></div>
+                <div className="bg-gray-100 dark:bg-gray-700 p-4 rounded-lg"><h4 className="text-sm font-semibold">Ticket Promedio</h4><p className="text-2xl font-bold">{money(totalEvents > 0 ? totalIncome / totalEvents : 0)}</p></div>
+                <div className="bg-gray-100 dark:bg-gray-700 p-4 rounded-lg"><h4 className="text-sm font-semibold" title="Sin descontar los gastos generales">Margen Bruto</h4><p className="text-2xl font-bold">{totalIncome > 0 ? ((profit / totalIncome) * 100).toFixed(1) : '0.0'}%</p></div>
+            </div>
+            <p className="text-xs text-gray-500">
+                Solo se cuentan eventos confirmados y completados.
+                {cancelledEvents.length > 0 && ` ${cancelledEvents.length} evento(s) cancelado(s) en el periodo; señas retenidas: ${money(retainedFromCancellations)}.`}
+            </p>
+            <div className="overflow-x-auto">
+                <h4 className="text-lg font-semibold mb-2">Comparativa</h4>
+                <table className="w-full text-left">
+                    <thead><tr className="border-b dark:border-gray-700"><th className="p-2"></th><th className="p-2">{comparison.currentLabel}</th><th className="p-2">{comparison.previousLabel}</th><th className="p-2">Año anterior</th></tr></thead>
+                    <tbody>
+                    {([
+                        ['Eventos', 'eventCount', (v: number) => v.toString()],
+                        ['Ingresos', 'income', money],
+                        ['Gastos', 'expenses', money],
+                        ['Ganancia Bruta', 'profit', money],
+                        ['Ticket Promedio', 'averageTicket', money],
+                        ['Margen Bruto', 'margin', (v: number) => `${v.toFixed(1)}%`],
+                    ] as [string, keyof PeriodSummary, (v: number) => string][]).map(([label, key, format]) => (
+                        <tr key={key} className="border-b dark:border-gray-700">
+                            <td className="p-2 font-semibold">{label}</td>
+                            <td className="p-2">{format(comparison.current[key])}</td>
+                            <td className="p-2">{format(comparison.previous[key])}<ChangeIndicator current={comparison.current[key]} previous={comparison.previous[key]} label="" points={key === 'margin'} /></td>
+                            <td className="p-2">{format(comparison.lastYear[key])}<ChangeIndicator current={comparison.current[key]} previous={comparison.lastYear[key]} label="" points={key === 'margin'} /></td>
+                        </tr>
+                    ))}
+                    </tbody>
+                </table>
+            </div>
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <div>
+                    <h4 className="text-lg font-semibold mb-2">Eventos por Día de la Semana</h4>
+                    <ResponsiveContainer width="100%" height={250}>
+                        <BarChart data={weekdayData} margin={{ top: 5, right: 20, left: 10, bottom: 5 }}>
+                            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="rgba(128, 128, 128, 0.3)" />
+                            <XAxis dataKey="name" />
+                            <YAxis allowDecimals={false} />
+                            <Tooltip formatter={(value) => `${value} eventos`} />
+                            <Bar dataKey="Eventos" fill="#3b82f6" />
+                        </BarChart>
+                    </ResponsiveContainer>
+                </div>
+                <div>
+                    <div className="flex justify-between items-center mb-2">
+                        <h4 className="text-lg font-semibold">Estacionalidad</h4>
+                        <select value={seasonalityMetric} onChange={e => setSeasonalityMetric(e.target.value as 'Eventos' | 'Ingresos')} className="p-1 border rounded text-sm dark:bg-gray-700 dark:border-gray-600">
+                            <option>Eventos</option>
+                            <option>Ingresos</option>
+                        </select>
+                    </div>
+                    <ResponsiveContainer width="100%" height={250}>
+                        <LineChart data={seasonalityData} margin={{ top: 5, right: 20, left: 10, bottom: 5 }}>
+                            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="rgba(128, 128, 128, 0.3)" />
+                            <XAxis dataKey="name" />
+                            <YAxis allowDecimals={false} tickFormatter={(value: number) => value >= 1000000 ? `${(value / 1000000).toFixed(1)}M` : value >= 1000 ? `${Math.round(value / 1000)}k` : value.toString()} />
+                            <Tooltip formatter={(value) => seasonalityMetric === 'Ingresos' ? money(value as number) : `${value} eventos`} />
+                            <Legend />
+                            {seasonalityYears.map((year, i) => <Line key={year} type="monotone" dataKey={year} stroke={COMPARISON_COLORS[(seasonalityYears.length - 1 - i) % COMPARISON_COLORS.length]} strokeWidth={2} />)}
+                        </LineChart>
+                    </ResponsiveContainer>
+                </div>
             </div>
              <div className="overflow-x-auto">
                  <table className="w-full text-left">
                     <thead><tr className="border-b dark:border-gray-700"><th className="p-2">Evento</th><th className="p-2">Fecha</th><th className="p-2">Ingreso</th><th className="p-2">Gastos</th><th className="p-2">Ganancia</th></tr></thead>
                     <tbody>
                     {filteredEvents.map(e => {
-                        const eventExpenses = e.expenses.reduce((acc, exp) => acc + exp.amount, 0);
-                        const eventProfit = e.amount_charged - eventExpenses;
+                        const eventIncome = getEventIncome(e, exchangeRates, baseCurrency);
+                        const eventExpenses = getEventExpensesTotal(e, exchangeRates, baseCurrency);
+                        const eventProfit = eventIncome - eventExpenses;
                         return (
                              <tr key={e.id} className="border-b dark:border-gray-700">
                                 <td className="p-2">{e.name}</td>
                                 <td className="p-2">{new Date(e.date).toLocaleDateString()}</td>
-                                <td className="p-2 text-green-600">{formatGuarani(e.amount_charged)}</td>
-                                <td className="p-2 text-red-600">{formatGuarani(eventExpenses)}</td>
-                                <td className={`p-2 font-bold ${eventProfit >= 0 ? 'text-blue-600' : 'text-red-600'}`}>{formatGuarani(eventProfit)}</td>
+                                <td className="p-2 text-green-600">
+                                    {money(eventIncome)}
+                                    {(e.currency || 'PYG') !== baseCurrency && <span className="block text-xs text-gray-500">{formatCurrency(e.amount_charged, e.currency)}</span>}
+                                </td>
+                                <td className="p-2 text-red-600">{money(eventExpenses)}</td>
+                                <td className={`p-2 font-bold ${eventProfit >= 0 ? 'text-blue-600' : 'text-red-600'}`}>{money(eventProfit)}</td>
                             </tr>
                         )
                     })}
                     </tbody>
                  </table>
             </div>
+            <div className="overflow-x-auto">
+                <div className="flex justify-between items-center mb-2">
+                    <div>
+                        <h4 className="text-lg font-semibold">Estado de Resultados</h4>
+                        <p className="text-xs text-gray-500">{startDate && endDate ? 'Meses del periodo seleccionado' : 'Últimos 12 meses'}. Incluye los gastos generales del negocio.</p>
+                    </div>
+                    <button onClick={generateProfitAndLossPDF} disabled={profitAndLoss.rows.length === 0} className="px-4 py-2 rounded-lg bg-gray-200 dark:bg-gray-700 text-sm disabled:opacity-50">Exportar PDF</button>
+                </div>
+                <table className="w-full text-left">
+                    <thead><tr className="border-b dark:border-gray-700"><th className="p-2">Mes</th><th className="p-2">Ingresos</th><th className="p-2">Gastos de Eventos</th><th className="p-2">Margen Bruto</th><th className="p-2">Gastos Generales</th><th className="p-2">Ganancia Neta</th></tr></thead>
+                    <tbody>
+                    {profitAndLoss.rows.map(row => (
+                        <tr key={row.month} className="border-b dark:border-gray-700">
+                            <td className="p-2 capitalize">{formatMonthKey(row.month)}</td>
+                            <td className="p-2 text-green-600">{money(row.income)}</td>
+                            <td className="p-2 text-red-600">{money(row.eventExpenses)}</td>
+                            <td className="p-2">{money(row.grossProfit)}</td>
+                            <td className="p-2 text-red-600">{money(row.overhead)}</td>
+                            <td className={`p-2 font-bold ${row.netProfit < 0 ? 'text-red-600' : 'text-blue-600'}`}>{money(row.netProfit)}</td>
+                        </tr>
+                    ))}
+                    </tbody>
+                    <tfoot>
+                        <tr className="font-bold bg-gray-100 dark:bg-gray-700">
+                            <td className="p-2">Total</td>
+                            <td className="p-2">{money(profitAndLoss.totals.income)}</td>
+                            <td className="p-2">{money(profitAndLoss.totals.eventExpenses)}</td>
+                            <td className="p-2">{money(profitAndLoss.totals.grossProfit)}</td>
+                            <td className="p-2">{money(profitAndLoss.totals.overhead)}</td>
+                            <td className={`p-2 ${profitAndLoss.totals.netProfit < 0 ? 'text-red-600' : 'text-blue-600'}`}>{money(profitAndLoss.totals.netProfit)}</td>
+                        </tr>
+                    </tfoot>
+                </table>
+            </div>
+            {categoryBreakdown.length > 0 && (
+                <div className="space-y-4">
+                    <h4 className="text-lg font-semibold">Gastos por Categoría</h4>
+                    <ResponsiveContainer width="100%" height={300}>
+                        <BarChart data={categoryMonthlyData} margin={{ top: 5, right: 20, left: 10, bottom: 5 }}>
+                            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="rgba(128, 128, 128, 0.3)" />
+                            <XAxis dataKey="name" />
+                            <YAxis tickFormatter={(value: number) => value >= 1000000 ? `${(value / 1000000).toFixed(1)}M` : value >= 1000 ? `${Math.round(value / 1000)}k` : value.toString()} />
+                            <Tooltip formatter={(value) => money(value as number)} />
+                            <Legend />
+                            {categoryBreakdown.map(c => <Bar key={c.name} dataKey={c.name} stackId="expenses" fill={c.color} />)}
+                        </BarChart>
+                    </ResponsiveContainer>
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-left">
+                            <thead><tr className="border-b dark:border-gray-700"><th className="p-2">Categoría</th><th className="p-2">Eventos</th><th className="p-2">Total</th><th className="p-2">Promedio por Evento</th><th className="p-2">% de Gastos</th><th className="p-2">% de Ingresos</th></tr></thead>
+                            <tbody>
+                            {categoryBreakdown.map(c => {
+                                const shareOfIncome = totalIncome > 0 ? (c.total / totalIncome) * 100 : 0;
+                                return (
+                                    <tr key={c.name} className="border-b dark:border-gray-700">
+                                        <td className="p-2"><span className="inline-block w-3 h-3 rounded-full mr-2" style={{ backgroundColor: c.color }}></span>{c.name}</td>
+                                        <td className="p-2">{c.eventCount}</td>
+                                        <td className="p-2 text-red-600">{money(c.total)}</td>
+                                        <td className="p-2">{money(c.total / c.eventCount)}</td>
+                                        <td className="p-2">{totalExpenses > 0 ? ((c.total / totalExpenses) * 100).toFixed(1) : '0.0'}%</td>
+                                        <td className={`p-2 font-bold ${shareOfIncome >= 15 ? 'text-red-600' : ''}`}>{shareOfIncome.toFixed(1)}%</td>
+                                    </tr>
+                                );
+                            })}
+                            </tbody>
+                        </table>
+                        <p className="text-xs text-gray-500 mt-2">"% de Ingresos" indica cuánto de lo cobrado consume cada categoría; en rojo las que superan el 15% y más reducen tu margen.</p>
+                    </div>
+                </div>
+            )}
+            {staffPayouts.length > 0 && (
+                <div className="overflow-x-auto">
+                    <h4 className="text-lg font-semibold mb-2">Pagos al Personal</h4>
+                    <table className="w-full text-left">
+                        <thead><tr className="border-b dark:border-gray-700"><th className="p-2">Personal</th><th className="p-2">Rol</th><th className="p-2">Eventos</th><th className="p-2">Total</th><th className="p-2">Pagado</th><th className="p-2">Pendiente</th></tr></thead>
+                        <tbody>
+                        {staffPayouts.map(p => (
+                            <tr key={p.member.id} className="border-b dark:border-gray-700">
+                                <td className="p-2">{p.member.name}</td>
+                                <td className="p-2">{p.member.role}</td>
+                                <td className="p-2">{p.eventCount}</td>
+                                <td className="p-2">{money(p.total)}</td>
+                                <td className="p-2 text-green-600">{money(p.paid)}</td>
+                                <td className={`p-2 font-bold ${p.pending > 0 ? 'text-yellow-600' : 'text-green-600'}`}>{money(p.pending)}</td>
+                            </tr>
+                        ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
         </div>
     )
 }
@@ -1571,47 +4932,58 @@ const SendNotificationPage: React.FC<{sendNotificationToAll: (message: string) =
 };
 
 const InquiriesPage: React.FC<{
+    userId: string,
     inquiries: Inquiry[],
     convertInquiryToBudget: (inquiry: Inquiry) => Promise<void>,
-    fetchInquiries: (userId: string) => Promise<void>,
-    currentUser: User,
+    updateStatus: (inquiryId: string, status: Inquiry['status']) => Promise<void>,
     onGetSuggestion: (inquiry: Inquiry) => void
-}> = ({ inquiries, convertInquiryToBudget, fetchInquiries, currentUser, onGetSuggestion }) => {
-    
-    const updateStatus = async (inquiryId: string, status: Inquiry['status']) => {
-        const { error } = await supabase.from('inquiries').update({ status }).eq('id', inquiryId);
-        if (error) {
-            console.error("Error updating inquiry status:", error);
-        } else {
-            fetchInquiries(currentUser.id);
-        }
-    };
-    
+}> = ({ userId, inquiries, convertInquiryToBudget, updateStatus, onGetSuggestion }) => {
+    const columns: DataTableColumn<Inquiry>[] = [
+        {
+            header: 'Cliente',
+            sortKey: 'client_name',
+            render: inquiry => (
+                <>
+                    <p className="font-bold">{inquiry.client_name}</p>
+                    <p className="text-xs text-gray-500">{[inquiry.client_email, inquiry.client_phone].filter(Boolean).join(' · ')}</p>
+                </>
+            ),
+        },
+        {
+            header: 'Evento',
+            sortKey: 'event_date',
+            render: inquiry => (
+                <>
+                    <p className="text-sm">{inquiry.event_type} - {inquiry.event_date}</p>
+                    <p className="text-sm text-gray-500 mt-1">{inquiry.message}</p>
+                </>
+            ),
+        },
+        { header: 'Recibida', sortKey: 'created_at', render: inquiry => new Date(inquiry.created_at).toLocaleDateString() },
+        {
+            header: 'Estado',
+            sortKey: 'status',
+            render: inquiry => (
+                <select value={inquiry.status} onChange={(e) => updateStatus(inquiry.id, e.target.value as Inquiry['status'])} className="p-1 border rounded text-sm dark:bg-gray-700 dark:border-gray-600">
+                    {INQUIRY_STATUSES.map(status => <option key={status}>{status}</option>)}
+                </select>
+            ),
+        },
+        {
+            header: 'Acciones',
+            render: inquiry => (
+                <div className="flex items-center gap-2">
+                    <button onClick={() => onGetSuggestion(inquiry)} title="Sugerencia de respuesta IA" className="p-2 text-yellow-500 hover:bg-yellow-100 rounded-full"><SparklesIcon /></button>
+                    <button onClick={() => convertInquiryToBudget(inquiry)} className="text-sm bg-green-500 text-white px-3 py-1 rounded whitespace-nowrap">Convertir a Presupuesto</button>
+                </div>
+            ),
+        },
+    ];
+
     return (
          <div className="bg-white dark:bg-gray-800 p-4 md:p-6 rounded-lg shadow">
             <h3 className="text-xl font-semibold mb-4">Consultas de Clientes</h3>
-            <div className="space-y-4">
-                {inquiries.map(inquiry => (
-                     <div key={inquiry.id} className="p-4 border dark:border-gray-700 rounded-lg">
-                        <div className="flex justify-between items-start">
-                             <div>
-                                <p className="font-bold">{inquiry.client_name}</p>
-                                <p className="text-sm">{inquiry.event_type} - {inquiry.event_date}</p>
-                                <p className="text-sm text-gray-500 mt-2">{inquiry.message}</p>
-                            </div>
-                            <div className="flex items-center gap-4">
-                               <select value={inquiry.status} onChange={(e) => updateStatus(inquiry.id, e.target.value as Inquiry['status'])} className="p-1 border rounded text-sm dark:bg-gray-700 dark:border-gray-600">
-                                   <option>Nueva</option>
-                                   <option>Contactado</option>
-                                   <option>Presupuesto Enviado</option>
-                               </select>
-                                <button onClick={() => onGetSuggestion(inquiry)} title="Sugerencia de respuesta IA" className="p-2 text-yellow-500 hover:bg-yellow-100 rounded-full"><SparklesIcon /></button>
-                                <button onClick={() => convertInquiryToBudget(inquiry)} className="text-sm bg-green-500 text-white px-3 py-1 rounded">Convertir a Presupuesto</button>
-                            </div>
-                        </div>
-                    </div>
-                ))}
-            </div>
+            <DataTable<Inquiry> viewKey="inquiries" userId={userId} source={INQUIRIES_TABLE_SOURCE} columns={columns} refreshKey={inquiries} searchPlaceholder="Buscar por nombre, email, tipo de evento o mensaje..." emptyMessage="Aún no recibiste consultas." />
         </div>
     )
 }
@@ -1620,11 +4992,18 @@ const EmailBudgetModal: React.FC<{
     budget: Budget;
     currentUser: User;
     clients: Client[];
+    initialRevisionId?: string | null;
     onClose: () => void;
     showAlert: (message: string, type: 'success' | 'error') => void;
-}> = ({ budget, currentUser, clients, onClose, showAlert }) => {
+}> = ({ budget, currentUser, clients, initialRevisionId, onClose, showAlert }) => {
     const [recipientEmail, setRecipientEmail] = useState(budget.client?.email || '');
     const [isSending, setIsSending] = useState(false);
+    const [revisions, setRevisions] = useState<BudgetRevision[]>([]);
+    const [revisionId, setRevisionId] = useState<string>(initialRevisionId || '');
+
+    useEffect(() => {
+        fetchBudgetRevisions(budget.id).then(setRevisions);
+    }, [budget.id]);
 
     const handleSend = async () => {
         if (!recipientEmail) {
@@ -1633,8 +5012,11 @@ const EmailBudgetModal: React.FC<{
         }
         setIsSending(true);
         const client = clients.find(c => c.id === budget.client_id);
-        const doc = await generateBudgetPDF(budget, currentUser, client);
+        const revision = revisions.find(r => r.id === revisionId);
+        const budgetToSend = revision ? applyBudgetRevision(budget, revision) : budget;
+        const doc = await generateBudgetPDF(budgetToSend, currentUser, client);
         const pdfBase64 = doc.output('datauristring').split(',')[1];
+        const publicUrl = await getBudgetPublicUrl(budget);
 
         const { error } = await supabase.functions.invoke('send-budget-email', {
             body: {
@@ -1643,6 +5025,7 @@ const EmailBudgetModal: React.FC<{
                 companyName: currentUser.company_name,
                 pdfBase64,
                 budgetTitle: budget.title,
+                publicUrl,
             }
         });
 
@@ -1650,7 +5033,7 @@ const EmailBudgetModal: React.FC<{
             showAlert("Error al enviar el correo: " + error.message, 'error');
         } else {
             showAlert("Presupuesto enviado exitosamente.", 'success');
-             await logActivity('budget_sent', { title: budget.title, clientName: client?.name });
+             await logActivity('budget_sent', { title: budget.title, clientName: client?.name, clientId: budget.client_id, revision: revision?.revision_number });
             onClose();
         }
         setIsSending(false);
@@ -1660,7 +5043,7 @@ const EmailBudgetModal: React.FC<{
         <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50 p-4">
             <div className="bg-white dark:bg-gray-800 p-8 rounded-lg shadow-xl w-full max-w-md">
                  <h2 className="text-2xl font-bold mb-4">Enviar Presupuesto</h2>
-                 <p className="mb-6">Se enviará el PDF del presupuesto a la siguiente dirección de correo:</p>
+                 <p className="mb-6">Se enviará el PDF del presupuesto junto con un enlace para que el cliente lo acepte o rechace en línea:</p>
                  <input 
                     type="email" 
                     value={recipientEmail} 
@@ -1669,6 +5052,17 @@ const EmailBudgetModal: React.FC<{
                     className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600 mb-6"
                     required
                  />
+                 {revisions.length > 0 && (
+                    <div className="mb-6">
+                        <label className="block text-sm font-medium mb-1">Versión a enviar</label>
+                        <select value={revisionId} onChange={e => setRevisionId(e.target.value)} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600">
+                            <option value="">Versión actual</option>
+                            {revisions.map(r => (
+                                <option key={r.id} value={r.id}>Versión {r.revision_number} - {new Date(r.created_at).toLocaleString()}</option>
+                            ))}
+                        </select>
+                    </div>
+                 )}
                  <div className="flex justify-end space-x-4">
                     <button type="button" onClick={onClose} disabled={isSending} className="px-4 py-2 rounded bg-gray-200 dark:bg-gray-600">Cancelar</button>
                     <button onClick={handleSend} disabled={isSending} className="px-4 py-2 rounded bg-primary-600 text-white disabled:bg-primary-300">
@@ -1683,19 +5077,22 @@ const EmailBudgetModal: React.FC<{
 const BudgetsPage: React.FC<{
     budgets: Budget[];
     clients: Client[];
+    events: Event[];
     currentUser: User;
-    saveBudget: (budget: Budget) => Promise<void>;
+    saveBudget: (budget: Budget) => Promise<Budget | null>;
     deleteBudget: (id: string) => Promise<void>;
+    convertBudgetToEvent: (budget: Budget) => void;
     showAlert: (message: string, type: 'success' | 'error') => void;
     isModalOpen: boolean;
     setIsModalOpen: (isOpen: boolean) => void;
     selectedBudget: Budget | null;
     setSelectedBudget: (budget: Budget | null) => void;
     onGetSuggestion: (budget: Budget) => void;
-}> = ({ budgets, clients, currentUser, saveBudget, deleteBudget, showAlert, isModalOpen, setIsModalOpen, selectedBudget, setSelectedBudget, onGetSuggestion }) => {
+}> = ({ budgets, clients, events, currentUser, saveBudget, deleteBudget, convertBudgetToEvent, showAlert, isModalOpen, setIsModalOpen, selectedBudget, setSelectedBudget, onGetSuggestion }) => {
 
     const [isEmailModalOpen, setIsEmailModalOpen] = useState(false);
     const [budgetToSend, setBudgetToSend] = useState<Budget | null>(null);
+    const [revisionToSend, setRevisionToSend] = useState<string | null>(null);
 
     const handleOpenModal = (budget: Budget | null) => {
         setSelectedBudget(budget);
@@ -1703,15 +5100,104 @@ const BudgetsPage: React.FC<{
     };
 
     const handleSave = async (budget: Budget) => {
-        await saveBudget(budget);
+        const previousStatus = budgets.find(b => b.id === budget.id)?.status;
+        const savedBudget = await saveBudget(budget);
         setIsModalOpen(false);
+        if (savedBudget && savedBudget.status === 'Aceptado' && previousStatus !== 'Aceptado' && !savedBudget.event_id) {
+            if (window.confirm('El presupuesto fue aceptado. ¿Deseas crear el evento ahora?')) {
+                convertBudgetToEvent(savedBudget);
+            }
+        }
+    };
+
+    const columns: DataTableColumn<Budget>[] = [
+        {
+            header: 'Título',
+            sortKey: 'title',
+            render: budget => {
+                const linkedEvent = budget.event_id ? events.find(e => e.id === budget.event_id) : undefined;
+                return (
+                    <>
+                        <span className="text-xs text-gray-500 block">N° {formatBudgetNumber(budget, currentUser)}</span>
+                        {budget.title}
+                        {linkedEvent && <p className="text-xs text-gray-500">Evento: {linkedEvent.name} ({new Date(linkedEvent.date).toLocaleDateString()})</p>}
+                    </>
+                );
+            },
+        },
+        { header: 'Cliente', render: budget => clients.find(c => c.id === budget.client_id)?.name || 'N/A' },
+        { header: 'Creado', sortKey: 'created_at', render: budget => new Date(budget.created_at).toLocaleDateString() },
+        { header: 'Total', render: budget => formatCurrency(getBudgetTotal(budget), budget.currency) },
+        {
+            header: 'Estado',
+            sortKey: 'status',
+            render: budget => (
+                <>
+                    <span className={`px-2 py-1 text-xs font-semibold rounded-full ${getStatusColor(budget.status)}`}>{budget.status}</span>
+                    {budget.responded_at && (
+                        <p className="text-xs text-gray-500 mt-1" title={budget.client_response_comment || ''}>
+                            Respondido por {budget.client_response_name} el {new Date(budget.responded_at).toLocaleDateString()}
+                        </p>
+                    )}
+                </>
+            ),
+        },
+        {
+            header: 'Acciones',
+            render: budget => {
+                const linkedEvent = budget.event_id ? events.find(e => e.id === budget.event_id) : undefined;
+                return (
+                    <div className="flex items-center space-x-2">
+                        <button title="Ver PDF" onClick={() => handleViewPdf(budget)} className="p-1.5 rounded text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700">
+                            <PdfIcon />
+                        </button>
+                        <button title="Copiar Enlace Público" onClick={() => handleCopyPublicLink(budget)} className="p-1.5 rounded text-primary-600 hover:bg-primary-100 dark:hover:bg-primary-900/50">
+                            <SendIcon />
+                        </button>
+                        <button title="Enviar por Correo" onClick={() => handleOpenEmailModal(budget)} className="p-1.5 rounded text-green-600 hover:bg-green-100 dark:hover:bg-green-900/50">
+                            <EmailIcon />
+                        </button>
+                        <button title="Editar" onClick={() => handleOpenModal(budget)} className="p-1.5 rounded text-blue-600 hover:bg-blue-100 dark:hover:bg-blue-900/50">
+                            <EditIcon />
+                        </button>
+                        <button title="Eliminar" onClick={() => deleteBudget(budget.id)} className="p-1.5 rounded text-red-600 hover:bg-red-100 dark:hover:bg-red-900/50">
+                            <TrashIcon />
+                        </button>
+                        {budget.status === 'Aceptado' && !linkedEvent && (
+                            <button title="Convertir a Evento" onClick={() => convertBudgetToEvent(budget)} className="p-1.5 rounded text-green-600 hover:bg-green-100 dark:hover:bg-green-900/50">
+                                <EventsIcon />
+                            </button>
+                        )}
+                        {budget.status === 'Enviado' && (
+                            <button title="Sugerencia de Seguimiento IA" onClick={() => onGetSuggestion(budget)} className="p-1.5 rounded text-yellow-500 hover:bg-yellow-100 dark:hover:bg-yellow-900/50">
+                                <SparklesIcon />
+                            </button>
+                        )}
+                    </div>
+                );
+            },
+        },
+    ];
+
+    const withDocumentNumber = async (budget: Budget) => {
+        const numbered = await ensureBudgetDocumentNumber(budget);
+        if (!numbered) showAlert("No se pudo asignar el número del presupuesto. No se puede enviar ni emitir hasta tenerlo; intenta de nuevo.", "error");
+        return numbered;
     };
 
-    const handleOpenEmailModal = (budget: Budget) => {
-        setBudgetToSend(budget);
+    const handleOpenEmailModal = async (budget: Budget, revisionId: string | null = null) => {
+        const numbered = await withDocumentNumber(budget);
+        if (!numbered) return;
+        setBudgetToSend(numbered);
+        setRevisionToSend(revisionId);
         setIsEmailModalOpen(true);
     };
 
+    const handleSendRevision = (budget: Budget, revision: BudgetRevision) => {
+        setIsModalOpen(false);
+        handleOpenEmailModal(budget, revision.id);
+    };
+
     const handleViewPdf = async (budget: Budget) => {
         const newTab = window.open('', '_blank');
         if (!newTab) {
@@ -1719,9 +5205,14 @@ const BudgetsPage: React.FC<{
             return;
         }
         newTab.document.write('Generando PDF, por favor espera...');
+        const numbered = await withDocumentNumber(budget);
+        if (!numbered) {
+            newTab.close();
+            return;
+        }
         try {
             const client = clients.find(c => c.id === budget.client_id);
-            const doc = await generateBudgetPDF(budget, currentUser, client);
+            const doc = await generateBudgetPDF(numbered, currentUser, client);
             newTab.location.href = doc.output('bloburl').toString();
         } catch (e) {
             console.error("PDF generation failed:", e);
@@ -1730,6 +5221,17 @@ const BudgetsPage: React.FC<{
         }
     };
 
+    const handleCopyPublicLink = async (budget: Budget) => {
+        if (!await withDocumentNumber(budget)) return;
+        const url = await getBudgetPublicUrl(budget);
+        if (!url) {
+            showAlert("No se pudo generar el enlace público del presupuesto.", "error");
+            return;
+        }
+        await navigator.clipboard.writeText(url);
+        showAlert("Enlace público copiado al portapapeles.", "success");
+    };
+
     const getStatusColor = (status: BudgetStatus) => {
         switch (status) {
             case 'Aceptado': return 'bg-green-100 text-green-800';
@@ -1745,61 +5247,102 @@ const BudgetsPage: React.FC<{
                 <h3 className="text-xl font-semibold">Presupuestos</h3>
                 <button onClick={() => handleOpenModal(null)} className="bg-primary-600 text-white px-4 py-2 rounded-lg hover:bg-primary-700">Crear Presupuesto</button>
             </div>
-            <div className="overflow-x-auto">
-                <table className="w-full text-left">
-                     <thead><tr className="border-b dark:border-gray-700"><th className="p-2">Título</th><th className="p-2">Cliente</th><th className="p-2">Total</th><th className="p-2">Estado</th><th className="p-2">Acciones</th></tr></thead>
-                    <tbody>
-                        {budgets.map(budget => {
-                             const total = budget.items.reduce((acc, item) => acc + item.quantity * item.price, 0) - budget.discount;
-                             return (
-                                <tr key={budget.id} className="border-b dark:border-gray-700">
-                                    <td className="p-2">{budget.title}</td>
-                                    <td className="p-2">{clients.find(c => c.id === budget.client_id)?.name || 'N/A'}</td>
-                                    <td className="p-2">{formatGuarani(total)}</td>
-                                    <td className="p-2"><span className={`px-2 py-1 text-xs font-semibold rounded-full ${getStatusColor(budget.status)}`}>{budget.status}</span></td>
-                                    <td className="p-2">
-                                        <div className="flex items-center space-x-2">
-                                            <button title="Ver PDF" onClick={() => handleViewPdf(budget)} className="p-1.5 rounded text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700">
-                                                <PdfIcon />
-                                            </button>
-                                            <button title="Enviar por Correo" onClick={() => handleOpenEmailModal(budget)} className="p-1.5 rounded text-green-600 hover:bg-green-100 dark:hover:bg-green-900/50">
-                                                <EmailIcon />
-                                            </button>
-                                            <button title="Editar" onClick={() => handleOpenModal(budget)} className="p-1.5 rounded text-blue-600 hover:bg-blue-100 dark:hover:bg-blue-900/50">
-                                                <EditIcon />
-                                            </button>
-                                            <button title="Eliminar" onClick={() => deleteBudget(budget.id)} className="p-1.5 rounded text-red-600 hover:bg-red-100 dark:hover:bg-red-900/50">
-                                                <TrashIcon />
-                                            </button>
-                                            {budget.status === 'Enviado' && (
-                                                <button title="Sugerencia de Seguimiento IA" onClick={() => onGetSuggestion(budget)} className="p-1.5 rounded text-yellow-500 hover:bg-yellow-100 dark:hover:bg-yellow-900/50">
-                                                    <SparklesIcon />
-                                                </button>
-                                            )}
-                                        </div>
-                                    </td>
-                                </tr>
-                            )
-                        })}
-                    </tbody>
-                </table>
+            <DataTable<Budget> viewKey="budgets" userId={currentUser.id} source={BUDGETS_TABLE_SOURCE} columns={columns} clients={clients} refreshKey={budgets} searchPlaceholder="Buscar por título o notas..." emptyMessage="Aún no tienes presupuestos." />
+            {isModalOpen && <BudgetFormModal budget={selectedBudget} clients={clients} onSave={handleSave} onSendRevision={handleSendRevision} onClose={() => setIsModalOpen(false)} defaultCurrency={currentUser.default_currency || 'PYG'} />}
+            {isEmailModalOpen && budgetToSend && <EmailBudgetModal budget={budgetToSend} currentUser={currentUser} clients={clients} initialRevisionId={revisionToSend} onClose={() => setIsEmailModalOpen(false)} showAlert={showAlert} />}
+        </div>
+    );
+};
+
+const BudgetRevisionDiff: React.FC<{ from: BudgetRevision, to: BudgetRevision, currency?: Currency }> = ({ from, to, currency }) => {
+    const money = (amount: number) => formatCurrency(amount, currency);
+    // Revisions store items without ids, so lines are compared by position; repeated descriptions stay as separate rows.
+    const rows = useMemo(() => {
+        return Array.from({ length: Math.max(from.items.length, to.items.length) }, (_, index) => {
+            const before = from.items[index] as BudgetItem | undefined;
+            const after = to.items[index] as BudgetItem | undefined;
+            let change: 'Añadido' | 'Eliminado' | 'Modificado' | 'Sin cambios' = 'Sin cambios';
+            if (!before) change = 'Añadido';
+            else if (!after) change = 'Eliminado';
+            else if (before.description !== after.description || before.quantity !== after.quantity || before.price !== after.price || getItemTaxRate(before) !== getItemTaxRate(after)) change = 'Modificado';
+            const description = before && after && before.description !== after.description
+                ? `${before.description || '(sin descripción)'} → ${after.description || '(sin descripción)'}`
+                : (after || before)!.description;
+            return { index, description, before, after, change };
+        });
+    }, [from, to]);
+
+    const changeColor = {
+        'Añadido': 'text-green-600',
+        'Eliminado': 'text-red-600 line-through',
+        'Modificado': 'text-yellow-600',
+        'Sin cambios': 'text-gray-500',
+    };
+    const formatItem = (item?: BudgetItem) => item ? `${item.quantity} x ${money(item.price)} (${TAX_RATES.find(t => t.rate === getItemTaxRate(item))!.label})` : '-';
+
+    return (
+        <div className="mt-3 text-sm">
+            <p className="font-semibold mb-2">Cambios de la versión {from.revision_number} a la {to.revision_number}</p>
+            <table className="w-full text-left">
+                <thead><tr className="border-b dark:border-gray-700"><th className="p-1">Item</th><th className="p-1">Antes</th><th className="p-1">Después</th></tr></thead>
+                <tbody>
+                    {rows.map(row => (
+                        <tr key={row.index} className="border-b dark:border-gray-700">
+                            <td className={`p-1 ${changeColor[row.change]}`}>{row.description || '(sin descripción)'}</td>
+                            <td className="p-1">{formatItem(row.before)}</td>
+                            <td className="p-1">{formatItem(row.after)}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+            <div className="mt-2 space-y-1">
+                {from.discount !== to.discount && <p>Descuento: {money(from.discount)} → {money(to.discount)}</p>}
+                {(from.valid_until || '') !== (to.valid_until || '') && <p>Válido hasta: {from.valid_until || 'N/A'} → {to.valid_until || 'N/A'}</p>}
+                {(from.notes || '') !== (to.notes || '') && <p>Las notas fueron modificadas.</p>}
             </div>
-            {isModalOpen && <BudgetFormModal budget={selectedBudget} clients={clients} onSave={handleSave} onClose={() => setIsModalOpen(false)} />}
-            {isEmailModalOpen && budgetToSend && <EmailBudgetModal budget={budgetToSend} currentUser={currentUser} clients={clients} onClose={() => setIsEmailModalOpen(false)} showAlert={showAlert} />}
         </div>
     );
 };
 
-const BudgetFormModal: React.FC<{budget: Budget | null, clients: Client[], onSave: (budget: Budget) => void, onClose: () => void}> = ({ budget, clients, onSave, onClose }) => {
+const BudgetFormModal: React.FC<{
+    budget: Budget | null,
+    clients: Client[],
+    onSave: (budget: Budget) => void,
+    onSendRevision: (budget: Budget, revision: BudgetRevision) => void,
+    onClose: () => void,
+    defaultCurrency: Currency
+}> = ({ budget, clients, onSave, onSendRevision, onClose, defaultCurrency }) => {
     const isNew = !budget?.id;
     const initialBudgetState: Budget = {
         id: '', user_id: '', client_id: clients[0]?.id || '', title: '', status: 'Borrador',
-        items: [{ id: Math.random().toString(), description: '', quantity: 1, price: 0 }],
-        discount: 0, notes: '', valid_until: new Date(Date.now() + 15 * 24 * 60 * 60 * 1000).toISOString().split('T')[0], created_at: new Date().toISOString()
+        items: [{ id: Math.random().toString(), description: '', quantity: 1, price: 0, tax_rate: 10 }],
+        discount: 0, currency: defaultCurrency, notes: '', valid_until: new Date(Date.now() + 15 * 24 * 60 * 60 * 1000).toISOString().split('T')[0], created_at: new Date().toISOString()
     };
     const [formData, setFormData] = useState<Budget>(budget ? {...budget, valid_until: budget.valid_until?.split('T')[0]} : initialBudgetState);
     const [eventDescription, setEventDescription] = useState('');
     const [isSuggesting, setIsSuggesting] = useState(false);
+    const [revisions, setRevisions] = useState<BudgetRevision[]>([]);
+    const [compareIds, setCompareIds] = useState<string[]>([]);
+
+    useEffect(() => {
+        if (budget?.id) fetchBudgetRevisions(budget.id).then(setRevisions);
+    }, [budget?.id]);
+
+    const toggleCompare = (revisionId: string) => {
+        setCompareIds(prev => prev.includes(revisionId)
+            ? prev.filter(id => id !== revisionId)
+            : [...prev, revisionId].slice(-2));
+    };
+
+    const comparedRevisions = revisions
+        .filter(r => compareIds.includes(r.id))
+        .sort((a, b) => a.revision_number - b.revision_number);
+
+    const handleRestoreRevision = (revision: BudgetRevision) => {
+        if (window.confirm(`¿Restaurar la versión ${revision.revision_number}? Los cambios no guardados se perderán.`)) {
+            setFormData(prev => applyBudgetRevision(prev, revision));
+        }
+    };
     
     const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
         const { name, value } = e.target;
@@ -1808,13 +5351,15 @@ const BudgetFormModal: React.FC<{budget: Budget | null, clients: Client[], onSav
     
     const handleItemChange = (index: number, field: keyof BudgetItem, value: string | number) => {
         const newItems = [...formData.items];
-        (newItems[index] as any)[field] = (field === 'quantity' || field === 'price') ? Number(value) : value;
+        (newItems[index] as any)[field] = (field === 'quantity' || field === 'price' || field === 'tax_rate') ? Number(value) : value;
         setFormData(prev => ({...prev, items: newItems}));
     };
 
-    const addItem = () => setFormData(prev => ({...prev, items: [...prev.items, { id: Math.random().toString(), description: '', quantity: 1, price: 0 }]}));
+    const addItem = () => setFormData(prev => ({...prev, items: [...prev.items, { id: Math.random().toString(), description: '', quantity: 1, price: 0, tax_rate: 10 }]}));
     const removeItem = (index: number) => setFormData(prev => ({...prev, items: prev.items.filter((_, i) => i !== index)}));
-    const total = formData.items.reduce((acc, item) => acc + item.quantity * item.price, 0) - formData.discount;
+    const total = getBudgetTotal(formData);
+    const taxes = getBudgetTaxBreakdown(formData);
+    const money = (amount: number) => formatCurrency(amount, formData.currency);
     
     const handleGetSuggestions = async () => {
         if (!eventDescription) return;
@@ -1822,7 +5367,7 @@ const BudgetFormModal: React.FC<{budget: Budget | null, clients: Client[], onSav
         const suggestions = await getBudgetItemsSuggestion(eventDescription);
         if (suggestions && suggestions !== "Error al generar sugerencias") {
             const suggestedItems = suggestions.split(',').map(s => s.trim()).filter(Boolean);
-            const newItems = suggestedItems.map(desc => ({ id: Math.random().toString(), description: desc, quantity: 1, price: 0 }));
+            const newItems = suggestedItems.map(desc => ({ id: Math.random().toString(), description: desc, quantity: 1, price: 0, tax_rate: 10 as TaxRate }));
             setFormData(prev => ({...prev, items: newItems}));
         }
         setIsSuggesting(false);
@@ -1857,19 +5402,48 @@ const BudgetFormModal: React.FC<{budget: Budget | null, clients: Client[], onSav
                         <h4 className="text-lg font-semibold mb-2">Items</h4>
                          {formData.items.map((item, index) => (
                              <div key={item.id} className="grid grid-cols-12 gap-2 mb-2">
-                                <input type="text" placeholder="Descripción" value={item.description} onChange={e => handleItemChange(index, 'description', e.target.value)} className="col-span-6 p-2 border rounded dark:bg-gray-700 dark:border-gray-600" />
+                                <input type="text" placeholder="Descripción" value={item.description} onChange={e => handleItemChange(index, 'description', e.target.value)} className="col-span-5 p-2 border rounded dark:bg-gray-700 dark:border-gray-600" />
                                 <input type="number" placeholder="Cant." value={item.quantity} onChange={e => handleItemChange(index, 'quantity', e.target.value)} className="col-span-2 p-2 border rounded dark:bg-gray-700 dark:border-gray-600" />
-                                <input type="number" placeholder="Precio" value={item.price} onChange={e => handleItemChange(index, 'price', e.target.value)} className="col-span-3 p-2 border rounded dark:bg-gray-700 dark:border-gray-600" />
+                                <input type="number" placeholder="Precio (IVA incl.)" value={item.price} onChange={e => handleItemChange(index, 'price', e.target.value)} className="col-span-2 p-2 border rounded dark:bg-gray-700 dark:border-gray-600" />
+                                <select value={getItemTaxRate(item)} onChange={e => handleItemChange(index, 'tax_rate', e.target.value)} className="col-span-2 p-2 border rounded dark:bg-gray-700 dark:border-gray-600">
+                                    {TAX_RATES.map(t => <option key={t.rate} value={t.rate}>{t.label}</option>)}
+                                </select>
                                 <button type="button" onClick={() => removeItem(index)} className="col-span-1 p-2 text-red-500 hover:bg-red-100 rounded-full flex justify-center items-center"><TrashIcon /></button>
                             </div>
                          ))}
                         <button type="button" onClick={addItem} className="mt-2 text-sm text-primary-600 hover:underline flex items-center"><PlusIcon /> Añadir Item</button>
                     </div>
                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                        <select name="status" value={formData.status} onChange={handleChange} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"><option>Borrador</option><option>Enviado</option><option>Aceptado</option><option>Rechazado</option></select>
+                        <select name="status" value={formData.status} onChange={handleChange} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600">{BUDGET_STATUSES.map(status => <option key={status}>{status}</option>)}</select>
                         <input type="date" name="valid_until" value={formData.valid_until || ''} onChange={handleChange} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"/>
+                        <select name="currency" value={formData.currency || 'PYG'} onChange={handleChange} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600">
+                            {CURRENCIES.map(c => <option key={c} value={c}>{c}</option>)}
+                        </select>
                     </div>
                     <textarea name="notes" value={formData.notes || ''} onChange={handleChange} placeholder="Notas adicionales..." rows={3} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" />
+                    {revisions.length > 0 && (
+                        <div className="border-t dark:border-gray-700 pt-4">
+                            <h4 className="text-lg font-semibold mb-2">Historial de Versiones</h4>
+                            <p className="text-xs text-gray-500 mb-2">Selecciona dos versiones para compararlas.</p>
+                            <div className="space-y-1 max-h-48 overflow-y-auto">
+                                {revisions.map(revision => (
+                                    <div key={revision.id} className="flex items-center justify-between text-sm p-2 rounded bg-gray-50 dark:bg-gray-700">
+                                        <label className="flex items-center gap-2">
+                                            <input type="checkbox" checked={compareIds.includes(revision.id)} onChange={() => toggleCompare(revision.id)} />
+                                            <span className="font-semibold">Versión {revision.revision_number}</span>
+                                            <span className="text-gray-500">{new Date(revision.created_at).toLocaleString()}</span>
+                                            <span>{money(getBudgetTotal(applyBudgetRevision(formData, revision)))}</span>
+                                        </label>
+                                        <div className="flex gap-3">
+                                            <button type="button" onClick={() => handleRestoreRevision(revision)} className="text-primary-600 hover:underline">Restaurar</button>
+                                            <button type="button" onClick={() => onSendRevision(formData, revision)} className="text-green-600 hover:underline">Enviar</button>
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                            {comparedRevisions.length === 2 && <BudgetRevisionDiff from={comparedRevisions[0]} to={comparedRevisions[1]} currency={formData.currency} />}
+                        </div>
+                    )}
                      <div className="flex justify-between items-center border-t dark:border-gray-700 pt-4">
                         <div>
                             <label>Descuento:</label>
@@ -1877,7 +5451,9 @@ const BudgetFormModal: React.FC<{budget: Budget | null, clients: Client[], onSav
                         </div>
                         <div className="text-right">
                            <p className="text-gray-600 dark:text-gray-300">Total:</p>
-                           <p className="text-xl font-bold">{formatGuarani(total)}</p>
+                           <p className="text-xl font-bold">{money(total)}</p>
+                           <p className="text-xs text-gray-500">IVA 10%: {money(taxes.iva10)} · IVA 5%: {money(taxes.iva5)} · Exentas: {money(taxes.exentas)}</p>
+                           <p className="text-xs text-gray-500">Total IVA: {money(taxes.totalIva)}</p>
                         </div>
                     </div>
                      <div className="flex justify-end space-x-4 pt-4">
@@ -2122,13 +5698,75 @@ const UserChatPage: React.FC<{
     );
 };
 
+const AvailabilityCalendar: React.FC<{
+    bookedDates: Set<string>;
+    selectedDate: string;
+    onSelect: (dateKey: string) => void;
+}> = ({ bookedDates, selectedDate, onSelect }) => {
+    const [month, setMonth] = useState(() => {
+        const today = new Date();
+        return new Date(today.getFullYear(), today.getMonth(), 1);
+    });
+    const todayKey = toDateKey(new Date());
+    const daysInMonth = new Date(month.getFullYear(), month.getMonth() + 1, 0).getDate();
+    const cells = [
+        ...Array.from({ length: month.getDay() }, () => null),
+        ...Array.from({ length: daysInMonth }, (_, i) => new Date(month.getFullYear(), month.getMonth(), i + 1)),
+    ];
+
+    return (
+        <div className="border rounded p-3">
+            <div className="flex justify-between items-center mb-2">
+                <button type="button" onClick={() => setMonth(new Date(month.getFullYear(), month.getMonth() - 1, 1))} className="px-2 py-1 rounded bg-gray-200 dark:bg-gray-700">&lt;</button>
+                <span className="font-semibold capitalize">{month.toLocaleString('es-ES', { month: 'long', year: 'numeric' })}</span>
+                <button type="button" onClick={() => setMonth(new Date(month.getFullYear(), month.getMonth() + 1, 1))} className="px-2 py-1 rounded bg-gray-200 dark:bg-gray-700">&gt;</button>
+            </div>
+            <div className="grid grid-cols-7 gap-1 text-center text-xs text-gray-500 mb-1">
+                {['D', 'L', 'M', 'M', 'J', 'V', 'S'].map((d, i) => <div key={i}>{d}</div>)}
+            </div>
+            <div className="grid grid-cols-7 gap-1 text-center text-sm">
+                {cells.map((date, i) => {
+                    if (!date) return <div key={i} />;
+                    const dateKey = toDateKey(date);
+                    const isPast = dateKey < todayKey;
+                    const isBooked = bookedDates.has(dateKey);
+                    return (
+                        <button
+                            key={i}
+                            type="button"
+                            disabled={isPast || isBooked}
+                            onClick={() => onSelect(dateKey)}
+                            title={isBooked ? 'Fecha no disponible' : undefined}
+                            className={`p-1 rounded ${
+                                dateKey === selectedDate ? 'bg-primary-600 text-white' :
+                                isBooked ? 'bg-red-100 text-red-400 line-through cursor-not-allowed' :
+                                isPast ? 'text-gray-300 cursor-not-allowed' :
+                                'hover:bg-primary-100'
+                            }`}
+                        >
+                            {date.getDate()}
+                        </button>
+                    );
+                })}
+            </div>
+            <div className="flex gap-4 mt-2 text-xs text-gray-500">
+                <span className="flex items-center gap-1"><span className="inline-block w-3 h-3 rounded bg-red-100" />No disponible</span>
+                <span className="flex items-center gap-1"><span className="inline-block w-3 h-3 rounded bg-primary-600" />Seleccionada</span>
+            </div>
+        </div>
+    );
+};
+
 const PublicInquiryPage: React.FC<{ userId: string }> = ({ userId }) => {
     const [djProfile, setDjProfile] = useState<{ company_name: string, companyLogoUrl?: string } | null>(null);
     const [formData, setFormData] = useState({ clientName: '', clientEmail: '', clientPhone: '', eventType: '', eventDate: '', message: '' });
+    const [bookedDates, setBookedDates] = useState<Set<string>>(new Set());
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState('');
     const [success, setSuccess] = useState(false);
 
+    const isDateBooked = !!formData.eventDate && bookedDates.has(formData.eventDate);
+
     useEffect(() => {
         const fetchDjProfile = async () => {
             const { data, error } = await supabase.from('profiles').select('company_name, company_logo_url').eq('id', userId).single();
@@ -2142,7 +5780,14 @@ const PublicInquiryPage: React.FC<{ userId: string }> = ({ userId }) => {
             }
             setLoading(false);
         };
+        // Only the dates are exposed, so leads never see who booked them.
+        const fetchBookedDates = async () => {
+            const { data, error } = await supabase.rpc('get_booked_dates', { p_user_id: userId, p_from: toDateKey(new Date()) });
+            if (error) console.error("Error fetching booked dates:", error.message);
+            else setBookedDates(new Set((data as { booked_date: string }[] || []).map(row => row.booked_date.split('T')[0])));
+        };
         fetchDjProfile();
+        fetchBookedDates();
     }, [userId]);
 
     const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
@@ -2151,6 +5796,7 @@ const PublicInquiryPage: React.FC<{ userId: string }> = ({ userId }) => {
 
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
+        if (isDateBooked) return;
         setLoading(true);
         const { error } = await supabase.functions.invoke('submit-inquiry', {
             body: { userId, ...formData }
@@ -2193,10 +5839,12 @@ const PublicInquiryPage: React.FC<{ userId: string }> = ({ userId }) => {
                     <input type="text" name="eventType" placeholder="Tipo de Evento (Ej: Boda, Cumpleaños)" onChange={handleChange} className="w-full p-2 border rounded" />
                     <div>
                         <label className="text-sm text-gray-500">Fecha del Evento (Opcional)</label>
-                        <input type="date" name="eventDate" onChange={handleChange} className="w-full p-2 border rounded" />
+                        <AvailabilityCalendar bookedDates={bookedDates} selectedDate={formData.eventDate} onSelect={eventDate => setFormData(prev => ({ ...prev, eventDate }))} />
+                        <input type="date" name="eventDate" value={formData.eventDate} onChange={handleChange} className="w-full p-2 border rounded mt-2" />
+                        {isDateBooked && <p className="text-sm text-red-500 mt-1">Esta fecha ya está reservada. Elige otra fecha o déjala en blanco.</p>}
                     </div>
                     <textarea name="message" placeholder="Cuéntanos más sobre tu evento..." rows={4} onChange={handleChange} className="w-full p-2 border rounded" />
-                    <button type="submit" disabled={loading} className="w-full bg-primary-600 text-white py-2 rounded-lg hover:bg-primary-700 disabled:bg-primary-300">
+                    <button type="submit" disabled={loading || isDateBooked} className="w-full bg-primary-600 text-white py-2 rounded-lg hover:bg-primary-700 disabled:bg-primary-300">
                         {loading ? 'Enviando...' : 'Enviar Consulta'}
                     </button>
                 </form>
@@ -2205,6 +5853,118 @@ const PublicInquiryPage: React.FC<{ userId: string }> = ({ userId }) => {
     );
 };
 
+const PublicBudgetPage: React.FC<{ token: string }> = ({ token }) => {
+    const [budget, setBudget] = useState<Budget | null>(null);
+    const [djProfile, setDjProfile] = useState<{ company_name: string, companyLogoUrl?: string, document_prefix?: string } | null>(null);
+    const [responseName, setResponseName] = useState('');
+    const [responseComment, setResponseComment] = useState('');
+    const [loading, setLoading] = useState(true);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        const fetchBudget = async () => {
+            // The RPC returns only the budget matching the token; the tables themselves are not readable anonymously.
+            const { data, error } = await supabase.rpc('get_public_budget', { p_token: token });
+            if (error || !data) {
+                setError("No se pudo encontrar el presupuesto solicitado.");
+                setLoading(false);
+                return;
+            }
+            const { company, ...publicBudget } = data as Budget & { company: { company_name: string, company_logo_url?: string, document_prefix?: string } };
+            setBudget(publicBudget);
+            setResponseName(publicBudget.client?.name || '');
+            setDjProfile({ company_name: company.company_name, companyLogoUrl: company.company_logo_url, document_prefix: company.document_prefix });
+            setLoading(false);
+        };
+        fetchBudget();
+    }, [token]);
+
+    const handleRespond = async (decision: 'Aceptado' | 'Rechazado') => {
+        if (!responseName.trim()) {
+            setError("Por favor, ingresa tu nombre para responder.");
+            return;
+        }
+        setIsSubmitting(true);
+        setError('');
+        // The edge function updates the status, logs the activity and notifies the DJ.
+        const { error } = await supabase.functions.invoke('respond-budget', {
+            body: { token, decision, name: responseName, comment: responseComment }
+        });
+        if (error) {
+            setError("Hubo un error al registrar tu respuesta. Por favor, intenta de nuevo.");
+        } else {
+            setBudget(prev => prev ? { ...prev, status: decision, client_response_name: responseName, client_response_comment: responseComment, responded_at: new Date().toISOString() } : prev);
+        }
+        setIsSubmitting(false);
+    };
+
+    if (loading) return <div className="min-h-screen flex items-center justify-center">Cargando...</div>;
+    if (!budget) return <div className="min-h-screen flex items-center justify-center text-red-500">{error}</div>;
+
+    const money = (amount: number) => formatCurrency(amount, budget.currency);
+    const isExpired = !!budget.valid_until && new Date(budget.valid_until) < new Date(new Date().toDateString());
+    const canRespond = budget.status === 'Enviado';
+
+    return (
+        <div className="min-h-screen flex items-center justify-center bg-gray-100 dark:bg-gray-900 p-4">
+            <div className="p-8 bg-white dark:bg-gray-800 rounded-lg shadow-md w-full max-w-3xl">
+                <div className="text-center mb-6">
+                    {djProfile?.companyLogoUrl && <img src={djProfile.companyLogoUrl} alt="Logo" className="w-20 h-20 rounded-full mx-auto mb-4 object-cover" />}
+                    <h1 className="text-2xl font-bold">{djProfile?.company_name}</h1>
+                    <p className="text-gray-500">Presupuesto N° {formatBudgetNumber(budget, djProfile || {})}: {budget.title}</p>
+                    {budget.valid_until && <p className="text-sm text-gray-500">Válido hasta {new Date(budget.valid_until).toLocaleDateString()}</p>}
+                </div>
+                <div className="overflow-x-auto">
+                    <table className="w-full text-left">
+                        <thead><tr className="border-b dark:border-gray-700"><th className="p-2">Descripción</th><th className="p-2 text-center">Cantidad</th><th className="p-2 text-right">Precio Unit.</th><th className="p-2 text-right">Total</th></tr></thead>
+                        <tbody>
+                            {budget.items.map((item, i) => (
+                                <tr key={i} className="border-b dark:border-gray-700">
+                                    <td className="p-2">{item.description}</td>
+                                    <td className="p-2 text-center">{item.quantity}</td>
+                                    <td className="p-2 text-right">{money(item.price)}</td>
+                                    <td className="p-2 text-right">{money(item.quantity * item.price)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+                <div className="mt-4 text-right space-y-1">
+                    <p>Subtotal: {money(getBudgetSubtotal(budget))}</p>
+                    <p>Descuento: {money(budget.discount)}</p>
+                    <p className="text-xl font-bold">Total: {money(getBudgetTotal(budget))}</p>
+                    <p className="text-xs text-gray-500">Precios con IVA incluido. Total IVA: {money(getBudgetTaxBreakdown(budget).totalIva)}</p>
+                </div>
+                {budget.notes && <p className="mt-4 text-sm text-gray-600 dark:text-gray-300 whitespace-pre-wrap">{budget.notes}</p>}
+
+                <div className="border-t dark:border-gray-700 mt-6 pt-6">
+                    {budget.responded_at || !canRespond ? (
+                        <div className="text-center">
+                            <p className="text-lg font-semibold">Este presupuesto fue {budget.status.toLowerCase()}.</p>
+                            {budget.client_response_name && <p className="text-sm text-gray-500">Respuesta de {budget.client_response_name}{budget.responded_at ? ` el ${new Date(budget.responded_at).toLocaleDateString()}` : ''}.</p>}
+                        </div>
+                    ) : isExpired ? (
+                        <p className="text-center text-yellow-600">Este presupuesto está vencido. Contacta a {djProfile?.company_name} para solicitar uno actualizado.</p>
+                    ) : (
+                        <div className="space-y-4">
+                            <input type="text" value={responseName} onChange={e => setResponseName(e.target.value)} placeholder="Tu Nombre Completo" className="w-full p-2 border rounded" required />
+                            <textarea value={responseComment} onChange={e => setResponseComment(e.target.value)} placeholder="Comentario (opcional)" rows={3} className="w-full p-2 border rounded" />
+                            {error && <p className="text-sm text-red-500">{error}</p>}
+                            <div className="flex gap-4">
+                                <button onClick={() => handleRespond('Rechazado')} disabled={isSubmitting} className="flex-1 py-2 rounded-lg bg-red-500 text-white hover:bg-red-600 disabled:bg-red-300">Rechazar</button>
+                                <button onClick={() => handleRespond('Aceptado')} disabled={isSubmitting} className="flex-1 py-2 rounded-lg bg-green-600 text-white hover:bg-green-700 disabled:bg-green-300">
+                                    {isSubmitting ? 'Enviando...' : 'Aceptar Presupuesto'}
+                                </button>
+                            </div>
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
 // --- MAIN APP COMPONENT ---
 const App: React.FC = () => {
     // --- STATE ---
@@ -2233,11 +5993,25 @@ const App: React.FC = () => {
     const [clients, setClients] = useState<Client[]>([]);
     const [budgets, setBudgets] = useState<Budget[]>([]);
     const [inquiries, setInquiries] = useState<Inquiry[]>([]);
+    const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([]);
+    const [equipment, setEquipment] = useState<Equipment[]>([]);
+    const [staffMembers, setStaffMembers] = useState<StaffMember[]>([]);
+    const [expenseCategories, setExpenseCategories] = useState<ExpenseCategory[]>([]);
+    const [businessExpenses, setBusinessExpenses] = useState<BusinessExpense[]>([]);
+    const [trash, setTrash] = useState<TrashContents>({ events: [], clients: [], budgets: [] });
+    const [undoHistory, setUndoHistory] = useState<UndoEntry[]>([]);
+    const nextUndoIdRef = useRef(0);
+    const [isCommandPaletteOpen, setIsCommandPaletteOpen] = useState(false);
+    const [focusedClientId, setFocusedClientId] = useState<string | null>(null);
 
     // State for budget modal to enable cross-component actions
     const [isBudgetModalOpen, setIsBudgetModalOpen] = useState(false);
     const [selectedBudget, setSelectedBudget] = useState<Budget | null>(null);
 
+    // State for event modal to enable budget-to-event conversion
+    const [isEventModalOpen, setIsEventModalOpen] = useState(false);
+    const [selectedEvent, setSelectedEvent] = useState<Event | null>(null);
+
     // AI State
     const [aiSuggestion, setAiSuggestion] = useState<{ title: string; suggestion: string; isLoading: boolean } | null>(null);
 
@@ -2265,6 +6039,75 @@ const App: React.FC = () => {
         setAlertState({ isOpen: true, message, type });
     };
 
+    const pushUndo = (label: string, undo: () => Promise<void>) => {
+        const id = ++nextUndoIdRef.current;
+        setUndoHistory(prev => [...prev.slice(-(UNDO_HISTORY_LIMIT - 1)), { id, label, undo, expiresAt: Date.now() + UNDO_WINDOW_MS }]);
+    };
+
+    const dismissUndo = (id: number) => setUndoHistory(prev => prev.filter(entry => entry.id !== id));
+
+    const runUndo = async (entry: UndoEntry) => {
+        dismissUndo(entry.id);
+        try {
+            await entry.undo();
+        } catch (error: unknown) {
+            showAlert('No se pudo deshacer el cambio: ' + (error instanceof Error ? error.message : String(error)), 'error');
+        }
+    };
+
+    // Entries leave the history as soon as their undo window closes.
+    useEffect(() => {
+        if (undoHistory.length === 0) return;
+        const nextExpiry = Math.min(...undoHistory.map(entry => entry.expiresAt));
+        const timer = setTimeout(() => setUndoHistory(prev => prev.filter(entry => entry.expiresAt > Date.now())), Math.max(0, nextExpiry - Date.now()));
+        return () => clearTimeout(timer);
+    }, [undoHistory]);
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+                e.preventDefault();
+                setIsCommandPaletteOpen(isOpen => !isOpen);
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, []);
+
+    const clearFocusedClient = useCallback(() => setFocusedClientId(null), []);
+
+    const openEventFromPalette = useCallback((event: Event | null) => {
+        setSelectedEvent(event);
+        setIsEventModalOpen(true);
+        setCurrentPage('events');
+    }, []);
+
+    const openBudgetFromPalette = useCallback((budget: Budget | null) => {
+        setSelectedBudget(budget);
+        setIsBudgetModalOpen(true);
+        setCurrentPage('budgets');
+    }, []);
+
+    const openClientFromPalette = useCallback((clientId: string) => {
+        setFocusedClientId(clientId);
+        setCurrentPage('clients');
+    }, []);
+
+    // Ctrl/Cmd+Z reverts the most recent change when focus is not in a form field.
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z' || e.shiftKey) return;
+            const target = e.target as HTMLElement;
+            if (target.closest('input, textarea, select, [contenteditable="true"]')) return;
+            const latest = undoHistory[undoHistory.length - 1];
+            if (!latest) return;
+            e.preventDefault();
+            runUndo(latest);
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    });
+
     useEffect(() => {
         if (theme === 'dark') document.documentElement.classList.add('dark');
         else document.documentElement.classList.remove('dark');
@@ -2371,13 +6214,13 @@ const App: React.FC = () => {
     }, []);
 
     const fetchClients = useCallback(async (userId: string) => {
-        const { data, error } = await supabase.from('clients').select('*').eq('user_id', userId).order('name', { ascending: true });
+        const { data, error } = await supabase.from('clients').select('*').eq('user_id', userId).is('deleted_at', null).order('name', { ascending: true });
         if (error) showAlert("Error al cargar los clientes: " + error.message, 'error');
         else setClients(data as Client[] || []);
     }, []);
 
     const fetchBudgets = useCallback(async (userId: string) => {
-        const { data, error } = await supabase.from('budgets').select('*, client:clients(*)').eq('user_id', userId).order('created_at', { ascending: false });
+        const { data, error } = await supabase.from('budgets').select('*, client:clients(*)').eq('user_id', userId).is('deleted_at', null).order('created_at', { ascending: false });
         if (error) showAlert("Error al cargar los presupuestos: " + error.message, 'error');
         else setBudgets(data as Budget[] || []);
     }, []);
@@ -2388,10 +6231,64 @@ const App: React.FC = () => {
         else setInquiries(data as Inquiry[] || []);
     }, []);
 
+    const fetchExchangeRates = useCallback(async (userId: string) => {
+        const { data, error } = await supabase.from('exchange_rates').select('*').eq('user_id', userId).order('date', { ascending: false });
+        if (error) showAlert("Error al cargar las cotizaciones: " + error.message, 'error');
+        else setExchangeRates(data as ExchangeRate[] || []);
+    }, []);
+
+    const fetchEquipment = useCallback(async (userId: string) => {
+        const { data, error } = await supabase.from('equipment').select('*').eq('user_id', userId).order('name', { ascending: true });
+        if (error) showAlert("Error al cargar el inventario: " + error.message, 'error');
+        else setEquipment(data as Equipment[] || []);
+    }, []);
+
+    const fetchStaffMembers = useCallback(async (userId: string) => {
+        const { data, error } = await supabase.from('staff_members').select('*').eq('user_id', userId).order('name', { ascending: true });
+        if (error) showAlert("Error al cargar el personal: " + error.message, 'error');
+        else setStaffMembers(data as StaffMember[] || []);
+    }, []);
+
+    const fetchExpenseCategories = useCallback(async (userId: string) => {
+        const { data, error } = await supabase.from('expense_categories').select('*').eq('user_id', userId).order('name', { ascending: true });
+        if (error) showAlert("Error al cargar las categorías de gastos: " + error.message, 'error');
+        else setExpenseCategories(data as ExpenseCategory[] || []);
+    }, []);
+
+    const fetchBusinessExpenses = useCallback(async (userId: string) => {
+        const { data, error } = await supabase.from('business_expenses').select('*').eq('user_id', userId).order('date', { ascending: false });
+        if (error) showAlert("Error al cargar los gastos generales: " + error.message, 'error');
+        else setBusinessExpenses(data as BusinessExpense[] || []);
+    }, []);
+
+    const fetchTrash = useCallback(async (userId: string) => {
+        const [eventsResult, clientsResult, budgetsResult] = await Promise.all([
+            supabase.from('events').select('*, client:clients(*)').eq('user_id', userId).not('deleted_at', 'is', null),
+            supabase.from('clients').select('*').eq('user_id', userId).not('deleted_at', 'is', null),
+            supabase.from('budgets').select('*, client:clients(*)').eq('user_id', userId).not('deleted_at', 'is', null),
+        ]);
+        const error = eventsResult.error || clientsResult.error || budgetsResult.error;
+        if (error) showAlert("Error al cargar la papelera: " + error.message, 'error');
+        else setTrash({ events: eventsResult.data as Event[] || [], clients: clientsResult.data as Client[] || [], budgets: budgetsResult.data as Budget[] || [] });
+    }, []);
+
+    // Permanently removes whatever has been in the trash longer than the user's retention period.
+    // The nightly purge_expired_trash job does the real cleanup; this only covers the gap until it runs.
+    const purgeExpiredTrash = useCallback(async (user: User) => {
+        const cutoff = new Date(Date.now() - getTrashRetentionDays(user) * 86400000).toISOString();
+        for (const table of ['events', 'budgets', 'clients']) {
+            const { error } = await supabase.from(table).delete().eq('user_id', user.id).lt('deleted_at', cutoff);
+            if (error) {
+                showAlert('Error al vaciar los elementos vencidos de la Papelera: ' + error.message, 'error');
+                return;
+            }
+        }
+    }, []);
+
     const fetchUserData = useCallback(async (userId: string) => {
-        const { data: eventsData, error: eventsError } = await supabase.from('events').select('*, client:clients(*)').eq('user_id', userId).order('date', { ascending: false });
+        const { data: eventsData, error: eventsError } = await supabase.from('events').select('*, client:clients(*)').eq('user_id', userId).is('deleted_at', null).order('date', { ascending: false });
         if (eventsError) showAlert("Error al cargar los eventos: " + eventsError.message, 'error');
-        else setEvents(eventsData as Event[] || []);
+        else setEvents((eventsData as Event[] || []).map(e => ({ ...e, payments: e.payments || [] })));
 
         const { data: announcementData, error: announcementError } = await supabase.from('announcements').select('*').eq('is_active', true).limit(1).single();
         if(announcementData && !announcementError) {
@@ -2451,16 +6348,23 @@ const App: React.FC = () => {
                 await fetchAdminData();
                 await fetchUnreadCountsByConversation(currentUser.id);
             } else {
+                await purgeExpiredTrash(currentUser);
                 await fetchUserData(currentUser.id);
                 await fetchClients(currentUser.id);
                 await fetchBudgets(currentUser.id);
                 await fetchInquiries(currentUser.id);
+                await fetchExchangeRates(currentUser.id);
+                await fetchEquipment(currentUser.id);
+                await fetchStaffMembers(currentUser.id);
+                await fetchExpenseCategories(currentUser.id);
+                await fetchBusinessExpenses(currentUser.id);
+                await fetchTrash(currentUser.id);
             }
             await fetchUnreadCount(currentUser.id);
             setLoading(false);
         };
         fetchData();
-    }, [currentUser, fetchAdminData, fetchUserData, fetchClients, fetchBudgets, fetchInquiries, fetchUnreadCount, fetchUnreadCountsByConversation]);
+    }, [currentUser, fetchAdminData, fetchUserData, fetchClients, fetchBudgets, fetchInquiries, fetchExchangeRates, fetchEquipment, fetchStaffMembers, fetchExpenseCategories, fetchBusinessExpenses, fetchTrash, purgeExpiredTrash, fetchUnreadCount, fetchUnreadCountsByConversation]);
 
     // --- CHAT FUNCTIONS ---
     const findAdminId = useCallback(async () => {
@@ -2661,31 +6565,67 @@ const App: React.FC = () => {
 
     const toggleTheme = () => setTheme(prev => prev === 'light' ? 'dark' : 'light');
 
-    const saveEvent = async (event: Event) => {
+    const saveEvent = async (event: Event): Promise<boolean> => {
         const isNew = !event.id;
+
+        const previousEvent = isNew ? undefined : events.find(e => e.id === event.id);
+        const previousStatus = isNew ? null : getEventStatus(previousEvent || event);
+        const overlapping = getEventStatus(event) === 'Cancelado' ? [] : findOverlappingEvents(events, event.date, event.start_time, event.end_time, event.id);
+        if (overlapping.length > 0 && !window.confirm(`Ya tienes eventos en este horario: ${describeOverlaps(overlapping)}. ¿Deseas guardarlo de todos modos?`)) {
+            return false;
+        }
         
-        const payload: any = {
+        const toPayload = (source: Event) => ({
             user_id: currentUser!.id,
-            client_id: event.client_id,
-            name: event.name,
-            location: event.location,
-            date: event.date,
-            amount_charged: event.amount_charged,
-            expenses: event.expenses.map(({ id: expenseId, ...rest }) => rest), // Remove temp client-side ID
-            observations: event.observations,
-        };
+            client_id: source.client_id,
+            name: source.name,
+            location: source.location,
+            date: source.date,
+            start_time: source.start_time || null,
+            end_time: source.end_time || null,
+            amount_charged: source.amount_charged,
+            currency: source.currency || 'PYG',
+            expenses: source.expenses.map(({ id: expenseId, ...rest }) => rest), // Remove temp client-side ID
+            payments: (source.payments || []).map(({ id: paymentId, ...rest }) => rest),
+            observations: source.observations,
+            budget_id: source.budget_id || null,
+            equipment_ids: source.equipment_ids || [],
+            staff: source.staff || [],
+            status: getEventStatus(source),
+            cancellation_reason: source.cancellation_reason || null,
+            refund_amount: source.refund_amount || null,
+        });
+        const payload: any = toPayload(event);
 
         if (!isNew) {
             payload.id = event.id;
         }
 
-        const { error } = await supabase.from('events').upsert(payload);
+        const { data, error } = await supabase.from('events').upsert(payload).select().single();
         
         if (error) {
             showAlert('Error al guardar el evento: ' + error.message, 'error');
+            return false;
         } else {
-            showAlert('Evento guardado exitosamente.', 'success');
-            await logActivity(isNew ? 'event_created' : 'event_updated', { eventName: event.name });
+            await logActivity(isNew ? 'event_created' : 'event_updated', { eventName: event.name, clientId: event.client_id });
+            if (previousStatus && previousStatus !== getEventStatus(event)) {
+                await logActivity('event_status_changed', { eventName: event.name, clientId: event.client_id, from: previousStatus, to: getEventStatus(event), reason: event.cancellation_reason || undefined });
+                // Undo brings back the whole previous version, not just the status, since the same save may have changed other fields.
+                pushUndo(`Evento marcado como ${getEventStatus(event)}.`, async () => {
+                    const { error: undoError } = await supabase.from('events').update(previousEvent ? toPayload(previousEvent) : { status: previousStatus }).eq('id', event.id);
+                    if (undoError) throw undoError;
+                    await logActivity('event_status_changed', { eventName: event.name, clientId: event.client_id, from: getEventStatus(event), to: previousStatus });
+                    await fetchUserData(currentUser!.id);
+                });
+            } else {
+                showAlert('Evento guardado exitosamente.', 'success');
+            }
+            if (isNew && event.budget_id) {
+                const { error: linkError } = await supabase.from('budgets').update({ event_id: data.id }).eq('id', event.budget_id);
+                if (linkError) console.error("Error linking budget to event:", linkError.message);
+                await logActivity('budget_converted_to_event', { eventName: event.name, budgetId: event.budget_id, clientId: event.client_id });
+                await fetchBudgets(currentUser!.id);
+            }
             if (isNew) {
                 const eventClient = clients.find(c => c.id === event.client_id);
                 if (eventClient && eventClient.email) {
@@ -2702,18 +6642,136 @@ const App: React.FC = () => {
                 }
             }
             await fetchUserData(currentUser!.id);
+            return true;
         }
     };
 
     const deleteEvent = async (eventId: string) => {
-        if (window.confirm('¿Estás seguro de que quieres eliminar este evento?')) {
+        if (window.confirm('¿Mover este evento a la Papelera?')) {
             const eventToDelete = events.find(e => e.id === eventId);
-            const { error } = await supabase.from('events').delete().eq('id', eventId);
+            const { error } = await supabase.from('events').update({ deleted_at: new Date().toISOString() }).eq('id', eventId);
             if (error) showAlert('Error al eliminar el evento: ' + error.message, 'error');
             else {
-                showAlert('Evento eliminado.', 'success');
-                await logActivity('event_deleted', { eventName: eventToDelete?.name || 'Desconocido' });
+                await logActivity('event_deleted', { eventName: eventToDelete?.name || 'Desconocido', clientId: eventToDelete?.client_id });
+                pushUndo('Evento movido a la Papelera.', () => restoreRecord('events', eventId, { name: eventToDelete?.name || 'Desconocido', clientId: eventToDelete?.client_id }));
                 await fetchUserData(currentUser!.id);
+                await fetchTrash(currentUser!.id);
+            }
+        }
+    };
+
+    const saveEquipment = async (item: Equipment) => {
+        const isNew = !item.id;
+        const payload: any = {
+            user_id: currentUser!.id,
+            name: item.name,
+            category: item.category,
+            serial_number: item.serial_number || null,
+            purchase_cost: item.purchase_cost,
+            purchase_date: item.purchase_date || null,
+            condition: item.condition,
+            notes: item.notes,
+        };
+        if (!isNew) payload.id = item.id;
+
+        const { error } = await supabase.from('equipment').upsert(payload);
+        if (error) showAlert('Error al guardar el equipo: ' + error.message, 'error');
+        else {
+            showAlert('Equipo guardado exitosamente.', 'success');
+            await logActivity(isNew ? 'equipment_created' : 'equipment_updated', { equipmentName: item.name });
+            await fetchEquipment(currentUser!.id);
+        }
+    };
+
+    const deleteEquipment = async (id: string) => {
+        const item = equipment.find(e => e.id === id);
+        const upcoming = events.filter(e => getEventDateKey(e) >= new Date().toISOString().split('T')[0] && e.equipment_ids?.includes(id));
+        const message = upcoming.length > 0
+            ? `Este equipo está asignado a ${upcoming.length} evento(s) próximos. ¿Estás seguro de que quieres eliminarlo?`
+            : '¿Estás seguro de que quieres eliminar este equipo?';
+        if (window.confirm(message)) {
+            const { error } = await supabase.from('equipment').delete().eq('id', id);
+            if (error) showAlert('Error al eliminar el equipo: ' + error.message, 'error');
+            else {
+                showAlert('Equipo eliminado.', 'success');
+                await logActivity('equipment_deleted', { equipmentName: item?.name || 'Desconocido' });
+                await fetchEquipment(currentUser!.id);
+            }
+        }
+    };
+
+    const saveStaffMember = async (member: StaffMember) => {
+        const isNew = !member.id;
+        const payload: any = {
+            user_id: currentUser!.id,
+            name: member.name,
+            role: member.role,
+            phone: member.phone,
+            email: member.email,
+            default_fee: member.default_fee,
+            notes: member.notes,
+        };
+        if (!isNew) payload.id = member.id;
+
+        const { error } = await supabase.from('staff_members').upsert(payload);
+        if (error) showAlert('Error al guardar el personal: ' + error.message, 'error');
+        else {
+            showAlert('Personal guardado exitosamente.', 'success');
+            await logActivity(isNew ? 'staff_created' : 'staff_updated', { staffName: member.name });
+            await fetchStaffMembers(currentUser!.id);
+        }
+    };
+
+    const deleteStaffMember = async (id: string) => {
+        const member = staffMembers.find(m => m.id === id);
+        const upcoming = events.filter(e => getEventDateKey(e) >= new Date().toISOString().split('T')[0] && e.staff?.some(a => a.staff_id === id));
+        const message = upcoming.length > 0
+            ? `Esta persona está asignada a ${upcoming.length} evento(s) próximos. ¿Estás seguro de que quieres eliminarla?`
+            : '¿Estás seguro de que quieres eliminar a esta persona?';
+        if (window.confirm(message)) {
+            const { error } = await supabase.from('staff_members').delete().eq('id', id);
+            if (error) showAlert('Error al eliminar el personal: ' + error.message, 'error');
+            else {
+                showAlert('Personal eliminado.', 'success');
+                await logActivity('staff_deleted', { staffName: member?.name || 'Desconocido' });
+                await fetchStaffMembers(currentUser!.id);
+            }
+        }
+    };
+
+    const saveBusinessExpense = async (expense: BusinessExpense) => {
+        const isNew = !expense.id;
+        const payload: any = {
+            user_id: currentUser!.id,
+            description: expense.description,
+            category_id: expense.category_id || null,
+            amount: expense.amount,
+            currency: expense.currency,
+            date: expense.date,
+            recurrence: expense.recurrence,
+            end_date: expense.end_date || null,
+            notes: expense.notes,
+        };
+        if (!isNew) payload.id = expense.id;
+
+        const { error } = await supabase.from('business_expenses').upsert(payload);
+        if (error) showAlert('Error al guardar el gasto: ' + error.message, 'error');
+        else {
+            showAlert('Gasto guardado exitosamente.', 'success');
+            await logActivity(isNew ? 'business_expense_created' : 'business_expense_updated', { description: expense.description });
+            await fetchBusinessExpenses(currentUser!.id);
+        }
+    };
+
+    const deleteBusinessExpense = async (id: string) => {
+        if (window.confirm('¿Estás seguro de que quieres eliminar este gasto?')) {
+            const expense = businessExpenses.find(e => e.id === id);
+            const { error } = await supabase.from('business_expenses').delete().eq('id', id);
+            if (error) showAlert('Error al eliminar el gasto: ' + error.message, 'error');
+            else {
+                showAlert('Gasto eliminado.', 'success');
+                await logActivity('business_expense_deleted', { description: expense?.description || 'Desconocido' });
+                await fetchBusinessExpenses(currentUser!.id);
             }
         }
     };
@@ -2726,6 +6784,14 @@ const App: React.FC = () => {
             name: client.name,
             phone: client.phone,
             email: client.email,
+            company_name: client.company_name || null,
+            ruc: client.ruc || null,
+            billing_address: client.billing_address || null,
+            tags: client.tags || [],
+            source: client.source || null,
+            birthday: client.birthday || null,
+            anniversary: client.anniversary || null,
+            notes: client.notes,
         };
 
         if (!isNew) {
@@ -2739,7 +6805,7 @@ const App: React.FC = () => {
             return null;
         } else {
             showAlert('Cliente guardado exitosamente.', 'success');
-            await logActivity(isNew ? 'client_created' : 'client_updated', { clientName: client.name });
+            await logActivity(isNew ? 'client_created' : 'client_updated', { clientName: client.name, clientId: data.id });
             if (isNew && client.email) {
                  await supabase.functions.invoke('send-welcome-email', {
                     body: { email: client.email, name: client.name, djCompanyName: currentUser!.company_name },
@@ -2751,21 +6817,89 @@ const App: React.FC = () => {
     };
     
     const deleteClient = async (clientId: string) => {
-        if (window.confirm('¿Estás seguro de que quieres eliminar este cliente? Esto no eliminará sus eventos asociados.')) {
+        if (window.confirm('¿Mover este cliente a la Papelera? Sus eventos asociados no se eliminarán.')) {
             const clientToDelete = clients.find(c => c.id === clientId);
-            const { error } = await supabase.from('clients').delete().eq('id', clientId);
+            const { error } = await supabase.from('clients').update({ deleted_at: new Date().toISOString() }).eq('id', clientId);
             if (error) showAlert('Error al eliminar el cliente: ' + error.message, 'error');
             else {
-                showAlert('Cliente eliminado.', 'success');
-                await logActivity('client_deleted', { clientName: clientToDelete?.name || 'Desconocido' });
+                await logActivity('client_deleted', { clientName: clientToDelete?.name || 'Desconocido', clientId });
+                pushUndo('Cliente movido a la Papelera.', () => restoreRecord('clients', clientId, { name: clientToDelete?.name || 'Desconocido', clientId }));
                 await fetchClients(currentUser!.id);
+                await fetchTrash(currentUser!.id);
             }
         }
     };
 
+    const mergeClients = async (survivorId: string, duplicateId: string) => {
+        const survivor = clients.find(c => c.id === survivorId);
+        const duplicate = clients.find(c => c.id === duplicateId);
+        if (!survivor || !duplicate) return;
+
+        // One transactional RPC: references move, the survivor fills its gaps and the duplicate goes to the trash, or nothing changes.
+        const { error } = await supabase.rpc('merge_clients', { p_survivor_id: survivorId, p_duplicate_id: duplicateId });
+        if (error) {
+            showAlert('Error al fusionar los clientes: ' + error.message, 'error');
+            return;
+        }
+        showAlert('Clientes fusionados exitosamente. El duplicado se movió a la Papelera.', 'success');
+        await logActivity('clients_merged', { clientName: survivor.name, mergedClientName: duplicate.name, clientId: survivorId });
+        await fetchClients(currentUser!.id);
+        await fetchUserData(currentUser!.id);
+        await fetchBudgets(currentUser!.id);
+        await fetchInquiries(currentUser!.id);
+        await fetchTrash(currentUser!.id);
+    };
+
+    // Bulk insert from the import wizard. Unlike saveClient/saveEvent this skips the
+    // welcome and confirmation emails, since imported records are historical.
+    const importData = async (plan: ImportPlan): Promise<boolean> => {
+        // Clients planned in this import still have their temporary "import-N" id; the RPC swaps it for the real one.
+        const isPlannedClient = (clientId: string) => plan.clients.some(client => client.id === clientId);
+        const { error } = await supabase.rpc('import_data', {
+            p_clients: plan.clients.map(client => ({
+                import_id: client.id,
+                name: client.name,
+                phone: client.phone,
+                email: client.email || null,
+                company_name: client.company_name || null,
+                ruc: client.ruc || null,
+                billing_address: client.billing_address || null,
+                tags: client.tags || [],
+                source: client.source || null,
+                birthday: client.birthday || null,
+                notes: client.notes || null,
+            })),
+            p_events: plan.events.map(event => ({
+                client_id: isPlannedClient(event.client_id) ? null : event.client_id,
+                client_import_id: isPlannedClient(event.client_id) ? event.client_id : null,
+                name: event.name,
+                location: event.location,
+                date: event.date,
+                start_time: event.start_time || null,
+                end_time: event.end_time || null,
+                amount_charged: event.amount_charged,
+                currency: event.currency || 'PYG',
+                expenses: event.expenses.map(({ id: expenseId, ...rest }) => rest),
+                payments: [],
+                observations: event.observations,
+                status: getEventDateKey(event) < toDateKey(new Date()) ? 'Completado' : 'Confirmado',
+            })),
+        });
+        if (error) {
+            showAlert('Error al importar los datos. No se guardó ningún registro: ' + error.message, 'error');
+            return false;
+        }
+
+        showAlert(`Importación completada: ${plan.clients.length} clientes y ${plan.events.length} eventos creados.`, 'success');
+        await logActivity('data_imported', { clientsCount: plan.clients.length, eventsCount: plan.events.length });
+        await fetchClients(currentUser!.id);
+        await fetchUserData(currentUser!.id);
+        return true;
+    };
+
     const saveUser = async (user: User, password?: string) => {
         const isNewUser = !user.id;
-        const { id, role, status, activeUntil, company_name, companyLogoUrl, notification_email } = user;
+        const { id, role, status, activeUntil, company_name, companyLogoUrl, notification_email, company_ruc, document_prefix, timbrado_number, timbrado_valid_until, default_currency, trash_retention_days } = user;
 
         if (isNewUser) {
              if (!user.email || !password) {
@@ -2785,6 +6919,8 @@ const App: React.FC = () => {
             const updateData: any = { role, status, active_until: activeUntil, company_name, company_logo_url: companyLogoUrl };
             if (currentUser?.role === 'admin') {
                 updateData.notification_email = notification_email;
+            } else {
+                Object.assign(updateData, { company_ruc, document_prefix, timbrado_number, timbrado_valid_until: timbrado_valid_until || null, default_currency, trash_retention_days: Number(trash_retention_days) || DEFAULT_TRASH_RETENTION_DAYS });
             }
             const { error } = await supabase.from('profiles').update(updateData).eq('id', id);
 
@@ -2798,6 +6934,50 @@ const App: React.FC = () => {
         }
     };
 
+    const saveExchangeRate = async (rate: Omit<ExchangeRate, 'id' | 'user_id' | 'created_at'>) => {
+        const { error } = await supabase.from('exchange_rates').insert({ ...rate, user_id: currentUser!.id });
+        if (error) showAlert('Error al guardar la cotización: ' + error.message, 'error');
+        else {
+            await logActivity('exchange_rate_saved', { currency: rate.currency, rate: rate.rate, date: rate.date });
+            await fetchExchangeRates(currentUser!.id);
+        }
+    };
+
+    const deleteExchangeRate = async (id: string) => {
+        if (window.confirm('¿Estás seguro de que quieres eliminar esta cotización?')) {
+            const { error } = await supabase.from('exchange_rates').delete().eq('id', id);
+            if (error) showAlert('Error al eliminar la cotización: ' + error.message, 'error');
+            else await fetchExchangeRates(currentUser!.id);
+        }
+    };
+
+    const saveExpenseCategory = async (category: Pick<ExpenseCategory, 'name' | 'color'>) => {
+        const { error } = await supabase.from('expense_categories').insert({ ...category, user_id: currentUser!.id });
+        if (error) showAlert('Error al guardar la categoría: ' + error.message, 'error');
+        else {
+            await logActivity('expense_category_created', { categoryName: category.name });
+            await fetchExpenseCategories(currentUser!.id);
+        }
+    };
+
+    const deleteExpenseCategory = async (id: string) => {
+        if (window.confirm('¿Eliminar esta categoría? Los gastos que la usan quedarán sin categoría.')) {
+            const { error } = await supabase.from('expense_categories').delete().eq('id', id);
+            if (error) showAlert('Error al eliminar la categoría: ' + error.message, 'error');
+            else await fetchExpenseCategories(currentUser!.id);
+        }
+    };
+
+    const regenerateCalendarToken = async () => {
+        const { error } = await supabase.from('profiles').update({ calendar_token: crypto.randomUUID() }).eq('id', currentUser!.id);
+        if (error) showAlert('Error al generar el enlace del calendario: ' + error.message, 'error');
+        else {
+            showAlert('Enlace del calendario generado.', 'success');
+            await logActivity('calendar_feed_regenerated');
+            setCurrentUser(await fetchUserProfile(currentUser!.id));
+        }
+    };
+
     const uploadFile = async (bucket: string, path: string, file: File) => {
          const { error } = await supabase.storage.from(bucket).upload(path, file, { upsert: true });
         if (error) {
@@ -2896,8 +7076,24 @@ const App: React.FC = () => {
         return diffDays;
     }, [currentUser]);
 
-    const saveBudget = async (budget: Budget) => {
+    // Every save is stored as an immutable revision so earlier quotes can be restored or re-sent.
+    // The database numbers revisions, so concurrent saves cannot collide.
+    const recordBudgetRevision = async (budgetId: string, content: Pick<Budget, 'items' | 'discount' | 'notes' | 'valid_until'>) => {
+        const { error } = await supabase.from('budget_revisions').insert({
+            budget_id: budgetId,
+            user_id: currentUser!.id,
+            items: content.items.map(({ id: itemId, ...rest }) => rest),
+            discount: content.discount,
+            notes: content.notes,
+            valid_until: content.valid_until,
+        });
+        return error;
+    };
+
+    const saveBudget = async (budget: Budget): Promise<Budget | null> => {
         const isNew = !budget.id;
+        const previousBudget = isNew ? undefined : budgets.find(b => b.id === budget.id);
+        const previousStatus = previousBudget?.status;
 
         const payload: any = {
             user_id: currentUser!.id,
@@ -2906,6 +7102,7 @@ const App: React.FC = () => {
             status: budget.status,
             items: budget.items.map(({ id: itemId, ...rest }) => rest),
             discount: budget.discount,
+            currency: budget.currency || 'PYG',
             notes: budget.notes,
             valid_until: budget.valid_until,
         };
@@ -2914,32 +7111,133 @@ const App: React.FC = () => {
             payload.id = budget.id;
         }
 
-        const { error } = await supabase.from('budgets').upsert(payload);
+        const { data, error } = await supabase.from('budgets').upsert(payload).select().single();
 
         if (error) {
             showAlert('Error al guardar el presupuesto: ' + error.message, 'error');
+            return null;
         } else {
-            showAlert('Presupuesto guardado exitosamente.', 'success');
-            await logActivity(isNew ? 'budget_created' : 'budget_updated', { title: budget.title });
+            let savedBudget = data as Budget;
+            // Numbers come from a per-user counter in the database so they stay sequential and gap-free.
+            const numberedBudget = await ensureBudgetDocumentNumber(savedBudget);
+            if (numberedBudget) savedBudget = numberedBudget;
+            const revisionError = await recordBudgetRevision(savedBudget.id, budget);
+
+            await logActivity(isNew ? 'budget_created' : 'budget_updated', { title: budget.title, clientId: budget.client_id });
+            const statusChanged = !!previousStatus && previousStatus !== budget.status;
+            if (statusChanged) {
+                pushUndo(`Presupuesto marcado como ${budget.status}.`, async () => {
+                    const restored = previousBudget!;
+                    const { error: undoError } = await supabase.from('budgets').update({
+                        client_id: restored.client_id,
+                        title: restored.title,
+                        status: restored.status,
+                        currency: restored.currency || 'PYG',
+                        items: restored.items.map(({ id: itemId, ...rest }) => rest),
+                        discount: restored.discount,
+                        notes: restored.notes,
+                        valid_until: restored.valid_until,
+                    }).eq('id', savedBudget.id);
+                    if (undoError) throw undoError;
+                    const undoRevisionError = await recordBudgetRevision(savedBudget.id, restored);
+                    if (undoRevisionError) throw undoRevisionError;
+                    await logActivity('budget_updated', { title: budget.title, clientId: budget.client_id });
+                    await fetchBudgets(currentUser!.id);
+                });
+            }
+            if (!numberedBudget || revisionError) {
+                showAlert([
+                    'El presupuesto se guardó, pero:',
+                    !numberedBudget ? '- No se pudo asignar su número. No se podrá enviar ni emitir hasta tenerlo.' : '',
+                    revisionError ? `- No se pudo registrar su revisión: ${revisionError.message}` : '',
+                ].filter(Boolean).join('\n'), 'error');
+            } else if (!statusChanged) {
+                showAlert('Presupuesto guardado exitosamente.', 'success');
+            }
             await fetchBudgets(currentUser!.id);
+            return savedBudget;
         }
     };
 
     const deleteBudget = async (budgetId: string) => {
-        if (window.confirm('¿Estás seguro de que quieres eliminar este presupuesto?')) {
+        if (window.confirm('¿Mover este presupuesto a la Papelera?')) {
             const budgetToDelete = budgets.find(b => b.id === budgetId);
-            const { error } = await supabase.from('budgets').delete().eq('id', budgetId);
+            const { error } = await supabase.from('budgets').update({ deleted_at: new Date().toISOString() }).eq('id', budgetId);
             if (error) showAlert('Error al eliminar el presupuesto: ' + error.message, 'error');
             else {
-                showAlert('Presupuesto eliminado.', 'success');
-                await logActivity('budget_deleted', { title: budgetToDelete?.title || 'Desconocido' });
+                await logActivity('budget_deleted', { title: budgetToDelete?.title || 'Desconocido', clientId: budgetToDelete?.client_id });
+                pushUndo('Presupuesto movido a la Papelera.', () => restoreRecord('budgets', budgetId, { name: budgetToDelete?.title || 'Desconocido', clientId: budgetToDelete?.client_id }));
                 await fetchBudgets(currentUser!.id);
+                await fetchTrash(currentUser!.id);
+            }
+        }
+    };
+
+    const refetchTrashKind = async (kind: TrashKind) => {
+        if (kind === 'events') await fetchUserData(currentUser!.id);
+        else if (kind === 'clients') await fetchClients(currentUser!.id);
+        else await fetchBudgets(currentUser!.id);
+        await fetchTrash(currentUser!.id);
+    };
+
+    const restoreRecord = async (kind: TrashKind, id: string, details: object) => {
+        const { error } = await supabase.from(kind).update({ deleted_at: null }).eq('id', id);
+        if (error) throw error;
+        await logActivity(`${kind.slice(0, -1)}_restored`, details);
+        await refetchTrashKind(kind);
+    };
+
+    const restoreFromTrash = async (kind: TrashKind, id: string) => {
+        const item = (trash[kind] as { id: string; name?: string; title?: string; client_id?: string | null }[]).find(i => i.id === id);
+        try {
+            await restoreRecord(kind, id, { name: item?.name || item?.title || 'Desconocido', clientId: kind === 'clients' ? id : item?.client_id });
+            showAlert(`${TRASH_KIND_LABELS[kind]} restaurado.`, 'success');
+        } catch (error: unknown) {
+            showAlert('Error al restaurar: ' + (error instanceof Error ? error.message : String(error)), 'error');
+        }
+    };
+
+    const updateInquiryStatus = async (inquiryId: string, status: Inquiry['status']) => {
+        const previousStatus = inquiries.find(i => i.id === inquiryId)?.status;
+        const { error } = await supabase.from('inquiries').update({ status }).eq('id', inquiryId);
+        if (error) {
+            console.error("Error updating inquiry status:", error);
+        } else {
+            await fetchInquiries(currentUser!.id);
+            if (previousStatus && previousStatus !== status) {
+                pushUndo(`Consulta marcada como ${status}.`, async () => {
+                    const { error: undoError } = await supabase.from('inquiries').update({ status: previousStatus }).eq('id', inquiryId);
+                    if (undoError) throw undoError;
+                    await fetchInquiries(currentUser!.id);
+                });
             }
         }
     };
 
+    const purgeFromTrash = async (kind: TrashKind, ids: string[]) => {
+        const { error } = await supabase.from(kind).delete().in('id', ids);
+        if (error) showAlert('Error al eliminar definitivamente: ' + error.message, 'error');
+        else {
+            showAlert(ids.length > 1 ? 'Elementos eliminados definitivamente.' : 'Eliminado definitivamente.', 'success');
+            await logActivity('trash_purged', { kind, count: ids.length });
+            await fetchTrash(currentUser!.id);
+        }
+    };
+
     const convertInquiryToBudget = async (inquiry: Inquiry) => {
-        let client = clients.find(c => c.email && c.email === inquiry.client_email && inquiry.client_email !== '');
+        if (inquiry.event_date) {
+            const overlapping = findOverlappingEvents(events, inquiry.event_date);
+            if (overlapping.length > 0 && !window.confirm(`La fecha solicitada ya tiene eventos agendados: ${describeOverlaps(overlapping)}. ¿Deseas crear el presupuesto de todos modos?`)) {
+                return;
+            }
+        }
+
+        const candidate = { name: inquiry.client_name, email: inquiry.client_email, phone: inquiry.client_phone };
+        const [bestMatch] = findDuplicateClients(candidate, clients);
+        let client = bestMatch?.strong ? bestMatch.client : undefined;
+        if (bestMatch && !bestMatch.strong && window.confirm(`Ya existe un cliente con un nombre similar: "${bestMatch.client.name}" (${bestMatch.client.phone}). ¿Es la misma persona?`)) {
+            client = bestMatch.client;
+        }
 
         if (!client) {
             const newClient = await saveClient({
@@ -2956,14 +7254,18 @@ const App: React.FC = () => {
             client = newClient;
         }
 
+        const { error: linkError } = await supabase.from('inquiries').update({ client_id: client.id }).eq('id', inquiry.id);
+        if (linkError) console.error("Error linking inquiry to client:", linkError.message);
+
         const newBudget: Budget = {
             id: '', 
             user_id: currentUser!.id,
             client_id: client.id,
             title: inquiry.event_type || `Presupuesto para ${client.name}`,
             status: 'Borrador',
-            items: [{ id: Math.random().toString(), description: inquiry.event_type || 'Servicio de DJ', quantity: 1, price: 0 }],
+            items: [{ id: Math.random().toString(), description: inquiry.event_type || 'Servicio de DJ', quantity: 1, price: 0, tax_rate: 10 }],
             discount: 0,
+            currency: currentUser!.default_currency || 'PYG',
             notes: inquiry.message || '',
             created_at: new Date().toISOString()
         };
@@ -2973,6 +7275,34 @@ const App: React.FC = () => {
         setCurrentPage('budgets');
     };
 
+    const convertBudgetToEvent = (budget: Budget) => {
+        if (budget.event_id) {
+            showAlert("Este presupuesto ya tiene un evento vinculado.", "error");
+            return;
+        }
+
+        const newEvent: Event = {
+            id: '',
+            user_id: currentUser!.id,
+            client_id: budget.client_id,
+            client: clients.find(c => c.id === budget.client_id) || null,
+            name: budget.title,
+            location: '',
+            date: new Date().toISOString(),
+            amount_charged: getBudgetTotal(budget),
+            currency: budget.currency || 'PYG',
+            expenses: [],
+            payments: [],
+            observations: budget.notes || '',
+            budget_id: budget.id,
+            status: 'Confirmado',
+        };
+
+        setSelectedEvent(newEvent);
+        setIsEventModalOpen(true);
+        setCurrentPage('events');
+    };
+
     const handleGetInquirySuggestion = async (inquiry: Inquiry) => {
         setAiSuggestion({ title: 'Sugerencia de Respuesta', suggestion: '', isLoading: true });
         const suggestion = await getInquiryReplySuggestion(inquiry.message || 'El cliente no dejó un mensaje detallado.');
@@ -2996,6 +7326,13 @@ const App: React.FC = () => {
             return <PublicInquiryPage userId={userId} />;
         }
     }
+
+    if (path.startsWith('/budget/')) {
+        const token = path.split('/')[2];
+        if (token) {
+            return <PublicBudgetPage token={token} />;
+        }
+    }
     
     return (
         <>
@@ -3022,6 +7359,7 @@ const App: React.FC = () => {
                             setIsNotificationsOpen={setIsNotificationsOpen}
                             markNotificationsAsRead={markNotificationsAsRead}
                             daysUntilExpiry={daysUntilExpiry}
+                            onSearchClick={() => setIsCommandPaletteOpen(true)}
                         />
                         <PageContent
                             currentPage={currentPage}
@@ -3030,15 +7368,41 @@ const App: React.FC = () => {
                             clients={clients}
                             budgets={budgets}
                             inquiries={inquiries}
+                            equipment={equipment}
+                            staffMembers={staffMembers}
+                            businessExpenses={businessExpenses}
+                            trash={trash}
+                            restoreFromTrash={restoreFromTrash}
+                            purgeFromTrash={purgeFromTrash}
                             saveEvent={saveEvent}
                             deleteEvent={deleteEvent}
+                            saveEquipment={saveEquipment}
+                            deleteEquipment={deleteEquipment}
+                            saveStaffMember={saveStaffMember}
+                            deleteStaffMember={deleteStaffMember}
+                            saveBusinessExpense={saveBusinessExpense}
+                            deleteBusinessExpense={deleteBusinessExpense}
                             saveClient={saveClient}
                             deleteClient={deleteClient}
+                            mergeClients={mergeClients}
+                            importData={importData}
                             saveBudget={saveBudget}
                             deleteBudget={deleteBudget}
+                            convertBudgetToEvent={convertBudgetToEvent}
+                            isEventModalOpen={isEventModalOpen}
+                            setIsEventModalOpen={setIsEventModalOpen}
+                            selectedEvent={selectedEvent}
+                            setSelectedEvent={setSelectedEvent}
                             users={users}
                             saveUser={saveUser}
                             uploadLogo={uploadLogo}
+                            exchangeRates={exchangeRates}
+                            saveExchangeRate={saveExchangeRate}
+                            deleteExchangeRate={deleteExchangeRate}
+                            expenseCategories={expenseCategories}
+                            saveExpenseCategory={saveExpenseCategory}
+                            deleteExpenseCategory={deleteExpenseCategory}
+                            regenerateCalendarToken={regenerateCalendarToken}
                             showAlert={showAlert}
                             announcements={announcements}
                             saveAnnouncement={saveAnnouncement}
@@ -3046,6 +7410,9 @@ const App: React.FC = () => {
                             toggleAnnouncementActive={toggleAnnouncementActive}
                             sendNotificationToAll={sendNotificationToAll}
                             fetchInquiries={fetchInquiries}
+                            updateInquiryStatus={updateInquiryStatus}
+                            focusedClientId={focusedClientId}
+                            clearFocusedClient={clearFocusedClient}
                             convertInquiryToBudget={convertInquiryToBudget}
                             isModalOpen={isBudgetModalOpen}
                             setIsModalOpen={setIsBudgetModalOpen}
@@ -3076,6 +7443,21 @@ const App: React.FC = () => {
                 <AuthScreen showAlert={showAlert} />
             )}
             <AlertModal alertState={alertState} onClose={() => setAlertState({ ...alertState, isOpen: false })} />
+            <UndoToast entries={undoHistory} onUndo={runUndo} onDismiss={dismissUndo} />
+            {session && currentUser && isCommandPaletteOpen && (
+                <CommandPalette
+                    currentUser={currentUser}
+                    events={events}
+                    clients={clients}
+                    budgets={budgets}
+                    inquiries={inquiries}
+                    onNavigate={setCurrentPage}
+                    onOpenEvent={openEventFromPalette}
+                    onOpenBudget={openBudgetFromPalette}
+                    onOpenClient={openClientFromPalette}
+                    onClose={() => setIsCommandPaletteOpen(false)}
+                />
+            )}
             {aiSuggestion && <AiSuggestionModal {...aiSuggestion} onClose={() => setAiSuggestion(null)} />}
         </>
     );
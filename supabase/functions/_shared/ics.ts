@@ -0,0 +1,79 @@
+// iCalendar export shared by the app's .ics downloads (App.tsx) and the
+// calendar-feed function, so subscribed calendars match the downloaded files.
+// Keep it free of browser and Deno globals: both runtimes import it.
+
+export type ICSEvent = {
+    id: string;
+    name: string;
+    location?: string | null;
+    date: string;
+    start_time?: string | null;
+    end_time?: string | null;
+    observations?: string | null;
+    status?: string | null;
+    client?: { name: string } | null;
+};
+
+const ICS_STATUS: Record<string, string> = { 'Tentativo': 'TENTATIVE', 'Confirmado': 'CONFIRMED', 'Completado': 'CONFIRMED', 'Cancelado': 'CANCELLED' };
+
+export const escapeICSText = (text: string) =>
+    text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// RFC 5545 limits content lines to 75 octets; longer lines continue on the next line after a space.
+export const foldICSLine = (line: string) => {
+    const encoder = new TextEncoder();
+    const chunks: string[] = [];
+    let current = '';
+    for (const char of line) {
+        if (encoder.encode(current + char).length > (chunks.length === 0 ? 75 : 74)) {
+            chunks.push(current);
+            current = '';
+        }
+        current += char;
+    }
+    chunks.push(current);
+    return chunks.join('\r\n ');
+};
+
+export const addDaysToDateKey = (dateKey: string, days: number) => {
+    const date = new Date(`${dateKey}T00:00:00Z`);
+    date.setUTCDate(date.getUTCDate() + days);
+    return date.toISOString().split('T')[0];
+};
+
+// Times are written as floating local times so calendar apps show them in the device's timezone.
+// Events without a status predate statuses and count as confirmed.
+export const buildICS = (events: ICSEvent[], calendarName: string) => {
+    const stamp = new Date().toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
+    const compactDate = (key: string) => key.replace(/-/g, '');
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//GestionSystem//Agenda//ES',
+        'CALSCALE:GREGORIAN',
+        `X-WR-CALNAME:${escapeICSText(calendarName)}`,
+    ];
+    events.forEach(event => {
+        const dateKey = event.date.split('T')[0];
+        const description = [
+            event.client?.name ? `Cliente: ${event.client.name}` : '',
+            event.observations || '',
+        ].filter(Boolean).join('\n');
+        lines.push('BEGIN:VEVENT', `UID:${event.id}@gestionsystem`, `DTSTAMP:${stamp}`);
+        if (event.start_time) {
+            lines.push(`DTSTART:${compactDate(dateKey)}T${event.start_time.replace(':', '')}00`);
+            if (event.end_time) {
+                const endKey = event.end_time <= event.start_time ? addDaysToDateKey(dateKey, 1) : dateKey;
+                lines.push(`DTEND:${compactDate(endKey)}T${event.end_time.replace(':', '')}00`);
+            }
+        } else {
+            lines.push(`DTSTART;VALUE=DATE:${compactDate(dateKey)}`, `DTEND;VALUE=DATE:${compactDate(addDaysToDateKey(dateKey, 1))}`);
+        }
+        lines.push(`SUMMARY:${escapeICSText(event.name)}`, `STATUS:${ICS_STATUS[event.status || 'Confirmado'] || 'CONFIRMED'}`);
+        if (event.location) lines.push(`LOCATION:${escapeICSText(event.location)}`);
+        if (description) lines.push(`DESCRIPTION:${escapeICSText(description)}`);
+        lines.push('END:VEVENT');
+    });
+    lines.push('END:VCALENDAR');
+    return lines.map(foldICSLine).join('\r\n') + '\r\n';
+};
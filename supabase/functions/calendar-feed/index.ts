@@ -0,0 +1,37 @@
+// Private iCalendar feed: GET /calendar-feed?token=<profiles.calendar_token>.
+// Deployed with verify_jwt = false (see supabase/config.toml); the token is the credential.
+// Uses the same buildICS as the app's .ics downloads (see _shared/ics.ts).
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { buildICS, type ICSEvent } from '../_shared/ics.ts';
+
+Deno.serve(async (req) => {
+    if (req.method !== 'GET') return new Response('Method not allowed', { status: 405 });
+
+    const token = new URL(req.url).searchParams.get('token');
+    if (!token) return new Response('Missing token', { status: 400 });
+
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+    const { data: profile, error: profileError } = await supabase
+        .from('profiles')
+        .select('id, company_name')
+        .eq('calendar_token', token)
+        .maybeSingle();
+    if (profileError) return new Response('Error loading calendar', { status: 500 });
+    if (!profile) return new Response('Calendar not found', { status: 404 });
+
+    const { data: events, error: eventsError } = await supabase
+        .from('events')
+        .select('id, name, location, date, start_time, end_time, observations, status, client:clients(name)')
+        .eq('user_id', profile.id)
+        .is('deleted_at', null)
+        .order('date', { ascending: true });
+    if (eventsError) return new Response('Error loading calendar', { status: 500 });
+
+    return new Response(buildICS((events || []) as unknown as ICSEvent[], profile.company_name), {
+        headers: {
+            'Content-Type': 'text/calendar; charset=utf-8',
+            'Cache-Control': 'private, max-age=900',
+        },
+    });
+});
@@ -0,0 +1,70 @@
+// Records a client's answer from the public budget page. Runs with the
+// service role because the page is anonymous; the token is the only key.
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+
+const DECISIONS = ['Aceptado', 'Rechazado'];
+// Only budgets the DJ has sent can be answered; drafts are not public yet.
+const ANSWERABLE_STATUS = 'Enviado';
+
+Deno.serve(async (req) => {
+    if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+
+    let body: { token?: unknown; decision?: unknown; name?: unknown; comment?: unknown };
+    try {
+        body = await req.json();
+    } catch {
+        return jsonResponse({ error: 'Invalid JSON body' }, 400);
+    }
+    const token = typeof body.token === 'string' ? body.token : '';
+    const decision = typeof body.decision === 'string' ? body.decision : '';
+    const name = typeof body.name === 'string' ? body.name.trim().slice(0, 200) : '';
+    const comment = typeof body.comment === 'string' ? body.comment.trim().slice(0, 2000) : '';
+    if (!token || !DECISIONS.includes(decision) || !name) {
+        return jsonResponse({ error: 'token, decision and name are required' }, 400);
+    }
+
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+    const { data: budget, error: lookupError } = await supabase
+        .from('budgets')
+        .select('id, user_id, client_id, title, status, valid_until, responded_at')
+        .eq('public_token', token)
+        .is('deleted_at', null)
+        .maybeSingle();
+    if (lookupError) return jsonResponse({ error: lookupError.message }, 500);
+    if (!budget) return jsonResponse({ error: 'Budget not found' }, 404);
+    if (budget.responded_at) return jsonResponse({ error: 'Budget already answered' }, 409);
+    if (budget.status !== ANSWERABLE_STATUS) return jsonResponse({ error: 'Budget is not open for answers' }, 409);
+    if (budget.valid_until && budget.valid_until < new Date().toISOString().split('T')[0]) {
+        return jsonResponse({ error: 'Budget expired' }, 409);
+    }
+
+    // The status filters make a second, simultaneous answer a no-op.
+    const { data: updated, error: updateError } = await supabase
+        .from('budgets')
+        .update({ status: decision, client_response_name: name, client_response_comment: comment || null, responded_at: new Date().toISOString() })
+        .eq('id', budget.id)
+        .is('deleted_at', null)
+        .eq('status', ANSWERABLE_STATUS)
+        .is('responded_at', null)
+        .select('id')
+        .maybeSingle();
+    if (updateError) return jsonResponse({ error: updateError.message }, 500);
+    if (!updated) return jsonResponse({ error: 'Budget already answered' }, 409);
+
+    await supabase.from('activity_logs').insert({
+        user_id: budget.user_id,
+        user_email: null,
+        action: 'budget_client_response',
+        details: { title: budget.title, clientId: budget.client_id, decision, name, comment: comment || undefined },
+    });
+    await supabase.from('notifications').insert({
+        user_id: budget.user_id,
+        message: `${name} ${decision === 'Aceptado' ? 'aceptó' : 'rechazó'} el presupuesto "${budget.title}".`,
+        type: 'budget',
+        is_read: false,
+    });
+
+    return jsonResponse({ status: decision });
+});
@@ -0,0 +1,141 @@
+-- Tables and columns the app uses on top of the original schema (profiles,
+-- clients, events, budgets, inquiries, notifications, activity_logs,
+-- announcements and chat_messages). Every statement is idempotent so the
+-- migration also runs on projects where some of these were added by hand.
+
+-- --- Existing tables ---
+
+alter table public.profiles
+    add column if not exists company_ruc text,
+    add column if not exists document_prefix text,
+    add column if not exists timbrado_number text,
+    add column if not exists timbrado_valid_until date,
+    add column if not exists default_currency text not null default 'PYG',
+    add column if not exists calendar_token text unique,
+    add column if not exists trash_retention_days integer default 30;
+
+alter table public.clients
+    add column if not exists company_name text,
+    add column if not exists ruc text,
+    add column if not exists billing_address text,
+    add column if not exists tags text[] not null default '{}',
+    add column if not exists source text,
+    add column if not exists birthday date,
+    add column if not exists anniversary date,
+    add column if not exists notes text,
+    add column if not exists deleted_at timestamptz;
+
+-- Times are stored as 'HH:MM' text, the format the forms and the iCalendar export use.
+-- Events without a status predate statuses and are treated as 'Confirmado'.
+alter table public.events
+    add column if not exists start_time text,
+    add column if not exists end_time text,
+    add column if not exists currency text not null default 'PYG',
+    add column if not exists payments jsonb not null default '[]',
+    add column if not exists budget_id uuid references public.budgets(id) on delete set null,
+    add column if not exists equipment_ids uuid[] not null default '{}',
+    add column if not exists staff jsonb not null default '[]',
+    add column if not exists status text,
+    add column if not exists cancellation_reason text,
+    add column if not exists refund_amount numeric,
+    add column if not exists deleted_at timestamptz;
+
+alter table public.budgets
+    add column if not exists currency text not null default 'PYG',
+    add column if not exists event_id uuid references public.events(id) on delete set null,
+    add column if not exists document_number integer,
+    add column if not exists public_token text unique,
+    add column if not exists client_response_name text,
+    add column if not exists client_response_comment text,
+    add column if not exists responded_at timestamptz,
+    add column if not exists deleted_at timestamptz;
+
+alter table public.inquiries
+    add column if not exists client_id uuid references public.clients(id) on delete set null;
+
+-- --- New tables ---
+
+create table if not exists public.exchange_rates (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid not null references auth.users(id) on delete cascade,
+    currency text not null,
+    rate numeric not null, -- Value of one unit of currency in guaraníes
+    date date not null,
+    created_at timestamptz not null default now()
+);
+
+create table if not exists public.expense_categories (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid not null references auth.users(id) on delete cascade,
+    name text not null,
+    color text not null,
+    created_at timestamptz not null default now()
+);
+
+create table if not exists public.business_expenses (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid not null references auth.users(id) on delete cascade,
+    description text not null,
+    category_id uuid references public.expense_categories(id) on delete set null,
+    amount numeric not null,
+    currency text not null default 'PYG',
+    date date not null,
+    recurrence text not null default 'Única',
+    end_date date,
+    notes text,
+    created_at timestamptz not null default now()
+);
+
+create table if not exists public.equipment (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid not null references auth.users(id) on delete cascade,
+    name text not null,
+    category text not null,
+    serial_number text,
+    purchase_cost numeric not null default 0,
+    purchase_date date,
+    condition text not null default 'Bueno',
+    notes text,
+    created_at timestamptz not null default now()
+);
+
+create table if not exists public.staff_members (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid not null references auth.users(id) on delete cascade,
+    name text not null,
+    role text not null,
+    phone text,
+    email text,
+    default_fee numeric not null default 0,
+    notes text,
+    created_at timestamptz not null default now()
+);
+
+-- revision_number is filled in by the trigger in 20261018000100.
+create table if not exists public.budget_revisions (
+    id uuid primary key default gen_random_uuid(),
+    budget_id uuid not null references public.budgets(id) on delete cascade,
+    user_id uuid not null references auth.users(id) on delete cascade,
+    revision_number integer not null,
+    items jsonb not null default '[]',
+    discount numeric not null default 0,
+    notes text,
+    valid_until date,
+    created_at timestamptz not null default now()
+);
+
+-- Each user only sees and changes their own rows in the new tables.
+do $$
+declare
+    table_name text;
+begin
+    foreach table_name in array array['exchange_rates', 'expense_categories', 'business_expenses', 'equipment', 'staff_members', 'budget_revisions'] loop
+        execute format('alter table public.%I enable row level security', table_name);
+        execute format('drop policy if exists "Users manage their own rows" on public.%I', table_name);
+        execute format(
+            'create policy "Users manage their own rows" on public.%I for all to authenticated using (user_id = auth.uid()) with check (user_id = auth.uid())',
+            table_name
+        );
+    end loop;
+end;
+$$;
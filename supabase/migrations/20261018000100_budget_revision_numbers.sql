@@ -0,0 +1,29 @@
+-- Budget revision numbers are assigned by the database so two saves of the
+-- same budget can never produce the same number.
+
+create or replace function public.assign_budget_revision_number()
+returns trigger
+language plpgsql
+as $$
+begin
+    -- Lock the parent budget so concurrent inserts for it run one after another.
+    perform 1 from public.budgets where id = new.budget_id for update;
+
+    select coalesce(max(revision_number), 0) + 1
+      into new.revision_number
+      from public.budget_revisions
+     where budget_id = new.budget_id;
+
+    return new;
+end;
+$$;
+
+drop trigger if exists budget_revisions_assign_number on public.budget_revisions;
+create trigger budget_revisions_assign_number
+    before insert on public.budget_revisions
+    for each row execute function public.assign_budget_revision_number();
+
+alter table public.budget_revisions
+    drop constraint if exists budget_revisions_budget_id_revision_number_key;
+alter table public.budget_revisions
+    add constraint budget_revisions_budget_id_revision_number_key unique (budget_id, revision_number);
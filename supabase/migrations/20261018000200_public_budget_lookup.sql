@@ -0,0 +1,59 @@
+-- The public #/budget/:token page reads its budget through this function
+-- instead of selecting from the tables with the anon key. Only the budget
+-- matching the token is returned, with just the fields the page renders.
+
+create or replace function public.get_public_budget(p_token text)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select jsonb_build_object(
+        'id', b.id,
+        'title', b.title,
+        'status', b.status,
+        'items', b.items,
+        'discount', b.discount,
+        'currency', b.currency,
+        'notes', b.notes,
+        'valid_until', b.valid_until,
+        'document_number', b.document_number,
+        'client_response_name', b.client_response_name,
+        'client_response_comment', b.client_response_comment,
+        'responded_at', b.responded_at,
+        'created_at', b.created_at,
+        'client', jsonb_build_object('name', c.name),
+        'company', jsonb_build_object(
+            'company_name', p.company_name,
+            'company_logo_url', p.company_logo_url,
+            'document_prefix', p.document_prefix
+        )
+    )
+    from public.budgets b
+    join public.profiles p on p.id = b.user_id
+    left join public.clients c on c.id = b.client_id
+    where p_token is not null
+      and b.public_token = p_token;
+$$;
+
+revoke all on function public.get_public_budget(text) from public;
+grant execute on function public.get_public_budget(text) to anon, authenticated;
+
+-- Budgets and clients must not be readable anonymously any more: drop the
+-- policies that opened them to the public page.
+do $$
+declare
+    policy record;
+begin
+    for policy in
+        select tablename, policyname
+          from pg_policies
+         where schemaname = 'public'
+           and tablename in ('budgets', 'clients')
+           and ('anon' = any(roles) or qual ilike '%public_token%')
+    loop
+        execute format('drop policy %I on public.%I', policy.policyname, policy.tablename);
+    end loop;
+end;
+$$;
@@ -0,0 +1,52 @@
+-- Sequential, gap-free budget numbers per user. The counter row is locked
+-- for the duration of the transaction, so concurrent saves queue up and a
+-- failed transaction rolls the counter back with it.
+
+create table if not exists public.budget_number_counters (
+    user_id uuid primary key references auth.users (id) on delete cascade,
+    last_number integer not null
+);
+
+alter table public.budget_number_counters enable row level security;
+
+create unique index if not exists budgets_user_document_number_key
+    on public.budgets (user_id, document_number)
+    where document_number is not null;
+
+create or replace function public.assign_budget_document_number(p_budget_id uuid)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_user_id uuid;
+    v_number integer;
+begin
+    select user_id, document_number
+      into v_user_id, v_number
+      from public.budgets
+     where id = p_budget_id
+       for update;
+
+    if v_user_id is null or v_user_id <> auth.uid() then
+        raise exception 'Budget % not found', p_budget_id using errcode = 'P0002';
+    end if;
+
+    -- Numbers are never reassigned.
+    if v_number is not null then
+        return v_number;
+    end if;
+
+    insert into public.budget_number_counters (user_id, last_number)
+    values (v_user_id, coalesce((select max(document_number) from public.budgets where user_id = v_user_id), 0) + 1)
+    on conflict (user_id) do update set last_number = public.budget_number_counters.last_number + 1
+    returning last_number into v_number;
+
+    update public.budgets set document_number = v_number where id = p_budget_id;
+    return v_number;
+end;
+$$;
+
+revoke all on function public.assign_budget_document_number(uuid) from public;
+grant execute on function public.assign_budget_document_number(uuid) to authenticated;
@@ -0,0 +1,57 @@
+-- Merges a duplicate client into another one in a single transaction: either
+-- every reference is moved and the duplicate goes to the trash, or nothing
+-- changes. Runs as the caller, so row level security still applies.
+
+create or replace function public.merge_clients(p_survivor_id uuid, p_duplicate_id uuid)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+    v_survivor public.clients%rowtype;
+    v_duplicate public.clients%rowtype;
+begin
+    if p_survivor_id = p_duplicate_id then
+        raise exception 'A client cannot be merged into itself';
+    end if;
+
+    select * into v_survivor from public.clients
+     where id = p_survivor_id and user_id = auth.uid() and deleted_at is null
+       for update;
+    select * into v_duplicate from public.clients
+     where id = p_duplicate_id and user_id = auth.uid() and deleted_at is null
+       for update;
+    if v_survivor.id is null or v_duplicate.id is null then
+        raise exception 'Client not found' using errcode = 'P0002';
+    end if;
+
+    update public.events set client_id = p_survivor_id where client_id = p_duplicate_id;
+    update public.budgets set client_id = p_survivor_id where client_id = p_duplicate_id;
+    update public.inquiries set client_id = p_survivor_id where client_id = p_duplicate_id;
+
+    -- The survivor keeps its own values and fills the gaps from the duplicate.
+    update public.clients set
+        email = coalesce(nullif(v_survivor.email, ''), v_duplicate.email),
+        company_name = coalesce(nullif(v_survivor.company_name, ''), nullif(v_duplicate.company_name, '')),
+        ruc = coalesce(nullif(v_survivor.ruc, ''), nullif(v_duplicate.ruc, '')),
+        billing_address = coalesce(nullif(v_survivor.billing_address, ''), nullif(v_duplicate.billing_address, '')),
+        tags = array(
+            select tag
+              from unnest(coalesce(v_survivor.tags, '{}') || coalesce(v_duplicate.tags, '{}')) with ordinality as merged(tag, position)
+             group by tag
+             order by min(position)
+        ),
+        source = coalesce(v_survivor.source, v_duplicate.source),
+        birthday = coalesce(v_survivor.birthday, v_duplicate.birthday),
+        anniversary = coalesce(v_survivor.anniversary, v_duplicate.anniversary),
+        notes = concat_ws(E'\n\n', nullif(v_survivor.notes, ''), nullif(v_duplicate.notes, ''))
+    where id = p_survivor_id;
+
+    -- Like any other deleted client, the duplicate can be restored from the trash.
+    update public.clients set deleted_at = now() where id = p_duplicate_id;
+end;
+$$;
+
+revoke all on function public.merge_clients(uuid, uuid) from public;
+grant execute on function public.merge_clients(uuid, uuid) to authenticated;
@@ -0,0 +1,40 @@
+-- Writes an import in a single transaction: if any event fails to insert, the
+-- clients created for it are rolled back too. New clients carry a temporary
+-- import_id that the events reference through client_import_id. Runs as the
+-- caller, so row level security still applies.
+
+create or replace function public.import_data(p_clients jsonb, p_events jsonb)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+    v_client jsonb;
+    v_client_id uuid;
+    v_client_ids jsonb := '{}'::jsonb;
+begin
+    if auth.uid() is null then
+        raise exception 'Not authenticated' using errcode = '42501';
+    end if;
+
+    for v_client in select * from jsonb_array_elements(coalesce(p_clients, '[]'::jsonb)) loop
+        insert into public.clients (user_id, name, phone, email, company_name, ruc, billing_address, tags, source, birthday, notes)
+        select auth.uid(), c.name, c.phone, c.email, c.company_name, c.ruc, c.billing_address, coalesce(c.tags, '{}'), c.source, c.birthday, c.notes
+          from jsonb_populate_record(null::public.clients, v_client) c
+        returning id into v_client_id;
+        v_client_ids := v_client_ids || jsonb_build_object(v_client->>'import_id', v_client_id);
+    end loop;
+
+    insert into public.events (user_id, client_id, name, location, date, start_time, end_time, amount_charged, currency, expenses, payments, observations, status)
+    select auth.uid(),
+           coalesce((v_client_ids->>(e->>'client_import_id'))::uuid, ev.client_id),
+           ev.name, ev.location, ev.date, ev.start_time, ev.end_time, ev.amount_charged, ev.currency,
+           ev.expenses, ev.payments, ev.observations, ev.status
+      from jsonb_array_elements(coalesce(p_events, '[]'::jsonb)) e
+     cross join lateral jsonb_populate_record(null::public.events, e) ev;
+end;
+$$;
+
+revoke all on function public.import_data(jsonb, jsonb) from public;
+grant execute on function public.import_data(jsonb, jsonb) to authenticated;
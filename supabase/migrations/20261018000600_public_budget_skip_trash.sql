@@ -0,0 +1,37 @@
+-- Budgets in the trash must not be reachable through their public link.
+
+create or replace function public.get_public_budget(p_token text)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select jsonb_build_object(
+        'id', b.id,
+        'title', b.title,
+        'status', b.status,
+        'items', b.items,
+        'discount', b.discount,
+        'currency', b.currency,
+        'notes', b.notes,
+        'valid_until', b.valid_until,
+        'document_number', b.document_number,
+        'client_response_name', b.client_response_name,
+        'client_response_comment', b.client_response_comment,
+        'responded_at', b.responded_at,
+        'created_at', b.created_at,
+        'client', jsonb_build_object('name', c.name),
+        'company', jsonb_build_object(
+            'company_name', p.company_name,
+            'company_logo_url', p.company_logo_url,
+            'document_prefix', p.document_prefix
+        )
+    )
+    from public.budgets b
+    join public.profiles p on p.id = b.user_id
+    left join public.clients c on c.id = b.client_id
+    where p_token is not null
+      and b.public_token = p_token
+      and b.deleted_at is null;
+$$;
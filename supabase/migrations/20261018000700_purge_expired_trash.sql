@@ -0,0 +1,34 @@
+-- Permanently deletes trashed records once they are older than the owner's
+-- retention setting (30 days by default). pg_cron runs it every night, so the
+-- trash is purged even for accounts that never open the app again.
+
+create extension if not exists pg_cron;
+
+create or replace function public.purge_expired_trash()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    -- Events and budgets go first so their clients are no longer referenced.
+    delete from public.events e
+     using public.profiles p
+     where p.id = e.user_id
+       and e.deleted_at < now() - make_interval(days => coalesce(p.trash_retention_days, 30));
+
+    delete from public.budgets b
+     using public.profiles p
+     where p.id = b.user_id
+       and b.deleted_at < now() - make_interval(days => coalesce(p.trash_retention_days, 30));
+
+    delete from public.clients c
+     using public.profiles p
+     where p.id = c.user_id
+       and c.deleted_at < now() - make_interval(days => coalesce(p.trash_retention_days, 30));
+end;
+$$;
+
+revoke all on function public.purge_expired_trash() from public, anon, authenticated;
+
+select cron.schedule('purge-expired-trash', '30 3 * * *', 'select public.purge_expired_trash()');
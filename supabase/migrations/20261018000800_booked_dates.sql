@@ -0,0 +1,21 @@
+-- The public inquiry form (#/inquiry/:userId) flags dates the DJ already has
+-- booked. Only the dates are returned, never the events or their clients.
+
+create or replace function public.get_booked_dates(p_user_id uuid, p_from date)
+returns table (booked_date date)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select distinct e.date::date
+      from public.events e
+     where e.user_id = p_user_id
+       and e.deleted_at is null
+       and coalesce(e.status, 'Confirmado') <> 'Cancelado'
+       and e.date::date >= coalesce(p_from, current_date)
+     order by 1;
+$$;
+
+revoke all on function public.get_booked_dates(uuid, date) from public;
+grant execute on function public.get_booked_dates(uuid, date) to anon, authenticated;
@@ -1,19 +1,66 @@
 
 
+export type Currency = 'PYG' | 'USD' | 'BRL';
+
+export interface ExchangeRate {
+  id: string;
+  user_id: string;
+  currency: Currency;
+  rate: number; // Value of one unit of `currency` in guaraníes
+  date: string; // ISO string, date the rate applies from
+  created_at: string;
+}
+
+export type ClientSource = 'Instagram' | 'Facebook' | 'Recomendación' | 'Sitio Web' | 'Cliente Anterior' | 'Otro';
+
 export interface Client {
   id: string; // From Supabase
   user_id: string;
   name: string;
   phone: string;
   email?: string;
+  company_name?: string;
+  ruc?: string; // Tax id printed on budgets
+  billing_address?: string;
+  tags?: string[];
+  source?: ClientSource | null;
+  birthday?: string | null; // ISO date
+  anniversary?: string | null; // ISO date
+  notes?: string; // Private notes shown on the client profile
+  deleted_at?: string | null; // Set while the client sits in the trash
 }
 
 export interface Expense {
   id: string;
   type: string;
   amount: number;
+  currency?: Currency; // Defaults to the event currency
+  staff_id?: string; // Set on lines generated from a staff assignment
+  category_id?: string | null; // ExpenseCategory; `type` stays as the free-text description
+}
+
+export interface ExpenseCategory {
+  id: string;
+  user_id: string;
+  name: string;
+  color: string; // Hex color used in report charts
+  created_at: string;
+}
+
+export type PaymentType = 'Seña' | 'Cuota' | 'Saldo';
+export type PaymentMethod = 'Efectivo' | 'Transferencia' | 'Tarjeta' | 'Otro';
+
+export interface EventPayment {
+  id: string; // temp client-side id
+  type: PaymentType;
+  amount: number;
+  method: PaymentMethod;
+  date: string; // ISO string format
+  receipt_note?: string;
 }
 
+export type EventStatus = 'Tentativo' | 'Confirmado' | 'Completado' | 'Cancelado';
+
 export interface Event {
   id:string; // Will be a UUID from Supabase
   user_id: string; // Associate event with a user
@@ -22,9 +69,73 @@ export interface Event {
   name: string;
   location: string;
   date: string; // ISO string format
+  start_time?: string | null; // 'HH:MM'; events without times block the whole day
+  end_time?: string | null; // 'HH:MM'; earlier than start_time when the event runs past midnight
   amount_charged: number;
+  currency?: Currency; // Defaults to PYG for events saved before multi-currency support
   expenses: Expense[];
+  payments: EventPayment[];
   observations?: string;
+  budget_id?: string | null; // Budget this event was converted from
+  equipment_ids?: string[]; // Inventory items assigned to the event
+  staff?: EventStaffAssignment[];
+  status?: EventStatus; // Treated as 'Confirmado' for events saved before statuses existed
+  cancellation_reason?: string | null;
+  refund_amount?: number | null; // Amount returned to the client on cancellation, in the event currency
+  deleted_at?: string | null; // Set while the event sits in the trash
+}
+
+export type StaffRole = 'DJ Asistente' | 'Técnico de Iluminación' | 'Sonidista' | 'Maestro de Ceremonias' | 'Otro';
+
+export interface StaffMember {
+  id: string;
+  user_id: string;
+  name: string;
+  role: StaffRole;
+  phone?: string;
+  email?: string;
+  default_fee: number;
+  notes?: string;
+  created_at: string;
+}
+
+export interface EventStaffAssignment {
+  staff_id: string;
+  fee: number; // Agreed fee in the event currency
+  paid: boolean;
+}
+
+export type EquipmentCategory = 'Sonido' | 'Iluminación' | 'Consolas' | 'Cables' | 'Otros';
+export type EquipmentCondition = 'Nuevo' | 'Bueno' | 'Regular' | 'En reparación' | 'Dado de baja';
+
+export interface Equipment {
+  id: string;
+  user_id: string;
+  name: string;
+  category: EquipmentCategory;
+  serial_number?: string;
+  purchase_cost: number;
+  purchase_date?: string;
+  condition: EquipmentCondition;
+  notes?: string;
+  created_at: string;
+}
+
+export type BusinessExpenseRecurrence = 'Única' | 'Mensual' | 'Anual';
+
+// Overhead not tied to an event: rent, equipment purchases, subscriptions, marketing...
+export interface BusinessExpense {
+  id: string;
+  user_id: string;
+  description: string;
+  category_id?: string | null;
+  amount: number;
+  currency: Currency;
+  date: string; // ISO date of the one-off charge, or the first charge of a recurring one
+  recurrence: BusinessExpenseRecurrence;
+  end_date?: string | null; // Last month a recurring expense applies; open-ended when empty
+  notes?: string;
+  created_at: string;
 }
 
 export type UserRole = 'admin' | 'user';
@@ -39,6 +150,13 @@ export interface User {
   company_name: string;
   companyLogoUrl?: string; // URL from Supabase Storage
   notification_email?: string; // Email for admin chat notifications
+  company_ruc?: string;
+  document_prefix?: string; // Establishment and expedition point, e.g. 001-001
+  timbrado_number?: string;
+  timbrado_valid_until?: string; // ISO string
+  default_currency?: Currency; // Base currency for reports and dashboard totals
+  calendar_token?: string | null; // Secret for the private iCalendar feed URL
+  trash_retention_days?: number | null; // Days before trashed records are purged; defaults to 30
 }
 
 export interface Announcement {
@@ -68,17 +186,27 @@ export interface Inquiry {
   event_type?: string;
   event_date?: string;
   message?: string;
+  client_id?: string | null; // Set once the inquiry is converted into a budget
   status: 'Nueva' | 'Contactado' | 'Presupuesto Enviado';
   created_at: string;
 }
 
+// Free-form payload written by logActivity; the named keys are the ones read back in the UI.
+export interface ActivityLogDetails {
+    eventName?: string;
+    title?: string;
+    name?: string;
+    clientId?: string | null;
+    [key: string]: unknown;
+}
+
 export interface ActivityLog {
     id: string;
     created_at: string;
     user_id: string;
     user_email: string | null;
     action: string;
-    details: object | null;
+    details: ActivityLogDetails | null;
 }
 
 export interface AdminDashboardStats {
@@ -88,11 +216,14 @@ export interface AdminDashboardStats {
     growthChartData: { name: string; Usuarios: number }[];
 }
 
+export type TaxRate = 10 | 5 | 0; // IVA 10%, IVA 5%, Exento
+
 export interface BudgetItem {
   id: string; // temp client-side id
   description: string;
   quantity: number;
-  price: number;
+  price: number; // IVA included
+  tax_rate?: TaxRate; // Defaults to 10 for items saved before IVA support
 }
 
 export type BudgetStatus = 'Borrador' | 'Enviado' | 'Aceptado' | 'Rechazado';
@@ -106,6 +237,26 @@ export interface Budget {
   status: BudgetStatus;
   items: BudgetItem[];
   discount: number;
+  currency?: Currency;
+  notes?: string;
+  valid_until?: string;
+  event_id?: string | null; // Event created from this budget once accepted
+  document_number?: number | null; // Sequential per user, assigned on first save
+  public_token?: string | null; // Token for the public #/budget/:token page
+  client_response_name?: string | null;
+  client_response_comment?: string | null;
+  responded_at?: string | null;
+  created_at: string;
+  deleted_at?: string | null; // Set while the budget sits in the trash
+}
+
+export interface BudgetRevision {
+  id: string;
+  budget_id: string;
+  user_id: string;
+  revision_number: number;
+  items: BudgetItem[];
+  discount: number;
   notes?: string;
   valid_until?: string;
   created_at: string;
@@ -120,4 +271,4 @@ export interface ChatMessage {
   is_read: boolean;
 }
 
-export type Page = 'dashboard' | 'events' | 'clients' | 'agenda' | 'reports' | 'settings' | 'userManagement' | 'announcements' | 'sendNotification' | 'budgets' | 'inquiries' | 'activityLog' | 'coach' | 'support';
+export type Page = 'dashboard' | 'events' | 'clients' | 'agenda' | 'reports' | 'settings' | 'userManagement' | 'announcements' | 'sendNotification' | 'budgets' | 'inquiries' | 'activityLog' | 'coach' | 'support' | 'inventory' | 'staff' | 'expenses' | 'trash';